@@ -4,13 +4,14 @@ import React, { useState, useEffect, useRef, useCallback } from "react";
 import BattleView from "@/components/BattleView";
 import { Button } from "@/components/ui/button";
 import { useRouter, useParams } from "next/navigation";
-import { useSocketStore } from "@/store/socket";
+import { getStoredResumeToken, useSocketStore } from "@/store/socket";
 import BattleIdSharing from "@/components/BattleIdSharing";
 
 import type {
 	PlayerDecision,
 	PlayerId,
 	PlayerRequest,
+	TurnTimerView,
 } from "@/lib/battle-types";
 import { Card, CardContent } from "@/components/ui/card";
 
@@ -21,13 +22,19 @@ import { LogFormatter } from "@pkmn/view";
 import { Generations } from "@pkmn/data";
 import { Dex } from "@pkmn/sim";
 import { toast } from "sonner";
+import {
+	DEFAULT_FORMAT,
+	SERVER_URL,
+	getGenerationFromFormat,
+} from "@/lib/constants";
 
 export default function BattlePage() {
 	const router = useRouter();
 	const params = useParams();
 	const battleId = params.battleId as string;
 
-	const { socket, userId, emit, isConnected } = useSocketStore();
+	const { socket, userId, displayName, emit, isConnected, teamPaste } =
+		useSocketStore();
 
 	// Client-side Battle State
 	const battleRef = useRef<Battle | null>(null);
@@ -39,13 +46,30 @@ export default function BattlePage() {
 	const [playerRequest, setPlayerRequest] = useState<PlayerRequest | null>(
 		null,
 	);
+	// Decision locked in for the current request, until the server takes it back or rejects it
+	const [submittedDecision, setSubmittedDecision] =
+		useState<PlayerDecision | null>(null);
 	const [playerRole, setPlayerRole] = useState<"p1" | "p2" | null>(null);
+	const [isSpectator, setIsSpectator] = useState(false);
+	const [format, setFormat] = useState<string>(DEFAULT_FORMAT);
 	const [winner, setWinner] = useState<string | null | undefined>(undefined);
+	const [ratings, setRatings] = useState<Partial<Record<PlayerId, number>>>(
+		{},
+	);
+	const [timers, setTimers] = useState<
+		Partial<Record<PlayerId, TurnTimerView>>
+	>({});
 	const [error, setError] = useState<string | null>(null);
 	const [loadingMessage, setLoadingMessage] = useState<string>(
 		"Connecting to battle...",
 	);
 
+	// A new request starts a new decision
+	// biome-ignore lint/correctness/useExhaustiveDependencies: reset whenever the request ID changes
+	useEffect(() => {
+		setSubmittedDecision(null);
+	}, [playerRequest?.rqid]);
+
 	// Initialize client-side battle object
 	useEffect(() => {
 		if (!battleRef.current) {
@@ -57,13 +81,36 @@ export default function BattlePage() {
 		}
 	}, []);
 
-	// Update formatter side when playerRole is known
+	// Update formatter side and generation when playerRole and format are known
 	useEffect(() => {
 		if (playerRole && formatterRef.current && battleRef.current) {
 			formatterRef.current = new LogFormatter(playerRole, battleRef.current);
-			console.log(`LogFormatter perspective set to: ${playerRole}`);
+			formatterRef.current.gen = getGenerationFromFormat(format);
+			console.log(
+				`LogFormatter perspective set to: ${playerRole} (format: ${format})`,
+			);
 		}
-	}, [playerRole]);
+	}, [playerRole, format]);
+
+	// Load the players' ratings once both players are known
+	const p1Name = clientBattleState?.p1?.name;
+	const p2Name = clientBattleState?.p2?.name;
+	useEffect(() => {
+		if (!p1Name || !p2Name) return;
+
+		const loadRatings = async () => {
+			try {
+				const response = await fetch(`${SERVER_URL}/battles/${battleId}/ratings`);
+				if (!response.ok) return;
+				setRatings(
+					(await response.json()) as Partial<Record<PlayerId, number>>,
+				);
+			} catch (e) {
+				console.error(`[Battle ${battleId}] Error loading ratings:`, e);
+			}
+		};
+		void loadRatings();
+	}, [battleId, p1Name, p2Name]);
 
 	// Function to process incoming protocol lines
 	const processProtocolLines = useCallback(
@@ -135,15 +182,22 @@ export default function BattlePage() {
 
 	// Socket Listeners Effect
 	useEffect(() => {
-		if (!socket || !isConnected || !battleId || !userId) {
+		// Wait for the server to identify us, so the resume token is up to date
+		if (!socket || !isConnected || !battleId || !userId || !displayName) {
 			if (!isConnected) setLoadingMessage("Connecting to server...");
-			else if (!userId) setLoadingMessage("Identifying user...");
+			else if (!userId || !displayName)
+				setLoadingMessage("Identifying user...");
 			else setLoadingMessage("Waiting for connection details...");
 			return;
 		}
 
 		setLoadingMessage(`Joining battle ${battleId}...`);
-		emit("client:join_battle", { battleId, userId });
+		emit("client:join_battle", {
+			battleId,
+			userId,
+			team: teamPaste.trim() || undefined,
+			resumeToken: getStoredResumeToken(userId),
+		});
 
 		const handleProtocol = (data: { battleId: string; lines: string[] }) => {
 			if (data.battleId === battleId) {
@@ -153,16 +207,30 @@ export default function BattlePage() {
 			}
 		};
 
+		// Start from a fresh battle, for when the server resends the whole battle so far
+		const resetClientBattle = (perspective: PlayerId, battleFormat: string) => {
+			// @ts-ignore Need to initialize Generations/Dex for client Battle options
+			const gens = new Generations(Dex);
+			battleRef.current = new Battle(gens);
+			formatterRef.current = new LogFormatter(perspective, battleRef.current);
+			formatterRef.current.gen = getGenerationFromFormat(battleFormat);
+			setFormattedLogs([]);
+		};
+
 		const handleBattleJoined = (data: {
 			battleId: string;
 			playerRole: PlayerId;
+			format: string;
 			opponentUserId?: string;
+			reconnected?: boolean;
 		}) => {
 			if (data.battleId === battleId) {
 				console.log(
 					`[Battle ${battleId}] Joined as ${data.playerRole}. Opponent: ${data.opponentUserId || "Waiting..."}`,
 				);
+				if (data.reconnected) resetClientBattle(data.playerRole, data.format);
 				setPlayerRole(data.playerRole);
+				if (data.format) setFormat(data.format);
 				setLoadingMessage(
 					data.opponentUserId
 						? "Opponent joined! Starting..."
@@ -171,6 +239,28 @@ export default function BattlePage() {
 			}
 		};
 
+		// The battle already has two players, so watch it instead
+		const handleBattleFull = (data: { battleId: string }) => {
+			if (data.battleId === battleId) {
+				setLoadingMessage("This battle is full. Joining as a spectator...");
+				emit("client:spectate", { battleId });
+			}
+		};
+
+		const handleSpectateJoined = (data: {
+			battleId: string;
+			format: string;
+		}) => {
+			if (data.battleId === battleId) {
+				console.log(`[Battle ${battleId}] Spectating.`);
+				// Spectators are sent the whole battle so far each time they join, as after a reconnect
+				resetClientBattle("p1", data.format);
+				setIsSpectator(true);
+				if (data.format) setFormat(data.format);
+				setLoadingMessage("Waiting for the battle to start...");
+			}
+		};
+
 		const handleBattleEnd = (data: {
 			battleId: string;
 			winner: string | null;
@@ -181,6 +271,7 @@ export default function BattlePage() {
 				);
 				setPlayerRequest(null);
 				setWinner(data.winner);
+				setTimers({});
 				setLoadingMessage("");
 			}
 		};
@@ -237,6 +328,56 @@ export default function BattlePage() {
 			}
 		};
 
+		const handleRatingUpdate = (data: {
+			battleId: string;
+			ratings: Record<PlayerId, number>;
+		}) => {
+			if (data.battleId === battleId) setRatings(data.ratings);
+		};
+
+		const handleDecisionRejected = (data: {
+			battleId: string;
+			message: string;
+		}) => {
+			if (data.battleId !== battleId) return;
+			console.warn(`[Battle ${battleId}] Decision rejected:`, data.message);
+			setSubmittedDecision(null);
+			toast.error(data.message);
+		};
+
+		const handleDecisionCancelled = (data: { battleId: string }) => {
+			if (data.battleId !== battleId) return;
+			setSubmittedDecision(null);
+		};
+
+		const handleCancelRejected = (data: {
+			battleId: string;
+			message: string;
+		}) => {
+			if (data.battleId !== battleId) return;
+			toast.error(data.message);
+		};
+
+		const handleTimerUpdate = (data: {
+			battleId: string;
+			timers: Record<PlayerId, Omit<TurnTimerView, "receivedAt">>;
+		}) => {
+			if (data.battleId !== battleId) return;
+			const receivedAt = Date.now();
+			setTimers({
+				p1: { ...data.timers.p1, receivedAt },
+				p2: { ...data.timers.p2, receivedAt },
+			});
+		};
+
+		const handleTeamInvalid = (data: { battleId?: string }) => {
+			if (data.battleId === battleId) {
+				// Send the player back to the home page, where the problems are shown
+				toast.error("Your team is not legal in this battle's format.");
+				router.push("/");
+			}
+		};
+
 		const handleError = (data: { message: string }) => {
 			console.error(`[Battle ${battleId}] Server error:`, data.message);
 			setError(data.message);
@@ -245,33 +386,71 @@ export default function BattlePage() {
 
 		socket.on("server:protocol", handleProtocol);
 		socket.on("server:battle_joined", handleBattleJoined);
+		socket.on("server:battle_full", handleBattleFull);
+		socket.on("server:spectate_joined", handleSpectateJoined);
 		socket.on("server:battle_end", handleBattleEnd);
 		socket.on("server:opponent_disconnected", handleOpponentDisconnect);
 		socket.on("server:opponent_reconnected", handleOpponentReconnect);
+		socket.on("server:team_invalid", handleTeamInvalid);
+		socket.on("server:rating_update", handleRatingUpdate);
+		socket.on("server:timer_update", handleTimerUpdate);
+		socket.on("server:decision_rejected", handleDecisionRejected);
+		socket.on("server:decision_cancelled", handleDecisionCancelled);
+		socket.on("server:cancel_rejected", handleCancelRejected);
+		// Another tab took over this session, and with it the battle seat
+		socket.on("server:session_replaced", handleError);
 		socket.on("server:error", handleError);
 
 		return () => {
 			console.log(`[Battle ${battleId}] Leaving page. Cleaning up listeners.`);
 			socket.off("server:protocol", handleProtocol);
 			socket.off("server:battle_joined", handleBattleJoined);
+			socket.off("server:battle_full", handleBattleFull);
+			socket.off("server:spectate_joined", handleSpectateJoined);
 			socket.off("server:battle_end", handleBattleEnd);
 			socket.off("server:opponent_disconnected", handleOpponentDisconnect);
 			socket.off("server:opponent_reconnected", handleOpponentReconnect);
+			socket.off("server:team_invalid", handleTeamInvalid);
+			socket.off("server:rating_update", handleRatingUpdate);
+			socket.off("server:timer_update", handleTimerUpdate);
+			socket.off("server:decision_rejected", handleDecisionRejected);
+			socket.off("server:decision_cancelled", handleDecisionCancelled);
+			socket.off("server:cancel_rejected", handleCancelRejected);
+			socket.off("server:session_replaced", handleError);
 			socket.off("server:error", handleError);
 		};
-	}, [socket, isConnected, battleId, userId, emit, processProtocolLines]);
-
-	const handlePlayerDecision = (decision: PlayerDecision | null) => {
+	}, [
+		socket,
+		isConnected,
+		battleId,
+		userId,
+		displayName,
+		emit,
+		teamPaste,
+		router,
+		processProtocolLines,
+	]);
+
+	const handlePlayerDecision = (decision: PlayerDecision) => {
 		if (!battleId || !playerRole || winner !== undefined) return;
 
 		console.log(`[Battle ${battleId}] Sending decision:`, decision);
+		setSubmittedDecision(decision);
 		emit("client:decision", {
 			battleId,
-			decision,
-			forceSwitch: playerRequest?.forceSwitch?.[0],
+			// Tie the decision to the request it answers, so the server can spot stale ones
+			decision: { ...decision, rqid: playerRequest?.rqid },
 		});
 	};
 
+	// The decision stays locked in until the server confirms it was taken back
+	const handleCancelDecision = () => {
+		if (!battleId || !submittedDecision) return;
+
+		console.log(`[Battle ${battleId}] Cancelling decision.`);
+		emit("client:cancel_decision", { battleId });
+	};
+
 	const handleReturnHome = () => {
 		if (battleId && isConnected) {
 			console.log(
@@ -296,7 +475,7 @@ export default function BattlePage() {
 		);
 	}
 
-	if (!clientBattleState || !playerRole) {
+	if (!clientBattleState || (!playerRole && !isSpectator)) {
 		return (
 			<div className="container mx-auto py-8 text-center">
 				<h1 className="text-3xl font-bold mb-4">Pokémon Battle</h1>
@@ -322,9 +501,17 @@ export default function BattlePage() {
 					Pokémon Battle ({battleId.substring(0, 6)})
 				</h1>
 				<p className="text-sm text-muted-foreground">
-					Playing as {playerRole.toUpperCase()}
+					{playerRole ? `Playing as ${playerRole.toUpperCase()}` : "Spectating"}
 				</p>
 				<div className="flex gap-4">
+					{winner !== undefined && (
+						<Button
+							variant="outline"
+							onClick={() => router.push(`/replay/${battleId}`)}
+						>
+							Watch Replay
+						</Button>
+					)}
 					<Button variant="outline" onClick={handleReturnHome}>
 						Return to Home
 					</Button>
@@ -336,9 +523,15 @@ export default function BattlePage() {
 				clientBattle={clientBattleState}
 				formattedLogs={formattedLogs}
 				playerRequest={playerRequest}
-				playerRole={playerRole}
+				playerRole={playerRole ?? "p1"}
+				format={format}
 				onDecision={handlePlayerDecision}
+				onCancelDecision={handleCancelDecision}
+				submittedDecision={submittedDecision}
 				winner={winner}
+				spectating={isSpectator}
+				ratings={ratings}
+				timers={timers}
 			/>
 		</div>
 	);
@@ -0,0 +1,131 @@
+import { type FormEvent, useState } from "react";
+import { LogIn, LogOut, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useSocketStore } from "@/store/socket";
+
+type AuthMode = "login" | "register";
+
+/**
+ * Shows who the player is playing as, with log in, register and log out actions
+ */
+export default function AccountMenu() {
+	const { displayName, userId, session, login, register, logout } =
+		useSocketStore();
+	const [open, setOpen] = useState(false);
+	const [mode, setMode] = useState<AuthMode>("login");
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const handleSubmit = async (e: FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setIsSubmitting(true);
+		const result = await (mode === "login" ? login : register)(
+			username,
+			password,
+		);
+		setIsSubmitting(false);
+		if (result) {
+			setError(result);
+			return;
+		}
+		setPassword("");
+		setOpen(false);
+	};
+
+	return (
+		<div className="flex items-center gap-3 text-sm">
+			<span className="flex items-center gap-1 text-muted-foreground">
+				<UserRound className="w-4 h-4" />
+				Playing as{" "}
+				<span className="font-medium text-foreground">
+					{displayName ?? userId ?? "..."}
+				</span>
+				{!session && " (guest)"}
+			</span>
+			{session ? (
+				<Button variant="outline" size="sm" onClick={logout}>
+					<LogOut className="w-4 h-4 mr-1" />
+					Log out
+				</Button>
+			) : (
+				<Dialog open={open} onOpenChange={setOpen}>
+					<DialogTrigger asChild>
+						<Button variant="outline" size="sm">
+							<LogIn className="w-4 h-4 mr-1" />
+							Log in
+						</Button>
+					</DialogTrigger>
+					<DialogContent className="sm:max-w-sm">
+						<DialogHeader>
+							<DialogTitle>
+								{mode === "login" ? "Log in" : "Create an account"}
+							</DialogTitle>
+							<DialogDescription>
+								Keep your name and ratings across devices.
+							</DialogDescription>
+						</DialogHeader>
+						<Tabs
+							value={mode}
+							onValueChange={(value) => {
+								setMode(value as AuthMode);
+								setError(null);
+							}}
+						>
+							<TabsList className="grid w-full grid-cols-2">
+								<TabsTrigger value="login">Log in</TabsTrigger>
+								<TabsTrigger value="register">Register</TabsTrigger>
+							</TabsList>
+						</Tabs>
+						<form onSubmit={handleSubmit} className="space-y-3">
+							<div className="space-y-1">
+								<Label htmlFor="account-username">Username</Label>
+								<Input
+									id="account-username"
+									autoComplete="username"
+									value={username}
+									onChange={(e) => setUsername(e.target.value)}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="account-password">Password</Label>
+								<Input
+									id="account-password"
+									type="password"
+									autoComplete={
+										mode === "login" ? "current-password" : "new-password"
+									}
+									value={password}
+									onChange={(e) => setPassword(e.target.value)}
+								/>
+							</div>
+							{error && (
+								<p className="text-sm text-destructive font-medium">{error}</p>
+							)}
+							<Button
+								type="submit"
+								className="w-full"
+								disabled={isSubmitting || !username.trim() || !password}
+							>
+								{mode === "login" ? "Log in" : "Register"}
+							</Button>
+						</form>
+					</DialogContent>
+				</Dialog>
+			)}
+		</div>
+	);
+}
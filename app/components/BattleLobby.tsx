@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Eye, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useSocketStore } from "@/store/socket";
+import { SERVER_URL } from "@/lib/constants";
+import type { Lobby, LobbyBattle } from "@/lib/battle-types";
+
+interface BattleLobbyProps {
+	disabled?: boolean;
+}
+
+/**
+ * Describes how long ago a battle was created
+ */
+function formatAge(createdAt: string, now: number): string {
+	const minutes = Math.floor((now - new Date(createdAt).getTime()) / 60000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes}m ago`;
+	return `${Math.floor(minutes / 60)}h ago`;
+}
+
+export default function BattleLobby({ disabled }: BattleLobbyProps) {
+	const router = useRouter();
+	const { socket, displayName } = useSocketStore();
+	const [lobby, setLobby] = useState<Lobby>({ waiting: [], active: [] });
+	const [now, setNow] = useState(() => Date.now());
+
+	// Load the lobby, then keep it up to date from the server's broadcasts
+	useEffect(() => {
+		const loadLobby = async () => {
+			try {
+				const response = await fetch(`${SERVER_URL}/lobby`);
+				if (response.ok) setLobby((await response.json()) as Lobby);
+			} catch (e) {
+				console.error("Error loading lobby:", e);
+			}
+		};
+		void loadLobby();
+
+		if (!socket) return;
+		socket.on("server:lobby_update", setLobby);
+		return () => {
+			socket.off("server:lobby_update", setLobby);
+		};
+	}, [socket]);
+
+	// Keep the battles' ages current
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), 30000);
+		return () => clearInterval(timer);
+	}, []);
+
+	const renderBattle = (battle: LobbyBattle, action: "join" | "watch") => (
+		<li
+			key={battle.id}
+			className="flex items-center justify-between gap-3 rounded-md border p-3"
+		>
+			<div className="min-w-0">
+				<p className="font-medium truncate">
+					{action === "join"
+						? battle.p1Name
+						: `${battle.p1Name} vs. ${battle.p2Name ?? "Player 2"}`}
+				</p>
+				<div className="flex items-center gap-2 text-xs text-muted-foreground">
+					<Badge variant="secondary">{battle.formatName}</Badge>
+					<span>{formatAge(battle.createdAt, now)}</span>
+				</div>
+			</div>
+			<Button
+				variant={action === "join" ? "default" : "outline"}
+				size="sm"
+				onClick={() => router.push(`/battle/${battle.id}`)}
+				disabled={disabled || (action === "join" && battle.p1Name === displayName)}
+			>
+				{action === "join" ? (
+					<>
+						Join <LogIn className="ml-2 w-4 h-4" />
+					</>
+				) : (
+					<>
+						Watch <Eye className="ml-2 w-4 h-4" />
+					</>
+				)}
+			</Button>
+		</li>
+	);
+
+	return (
+		<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+			<div>
+				<h3 className="mb-2 font-semibold">Open Battles</h3>
+				{lobby.waiting.length > 0 ? (
+					<ScrollArea className="h-64">
+						<ul className="space-y-2 pr-3">
+							{lobby.waiting.map((battle) => renderBattle(battle, "join"))}
+						</ul>
+					</ScrollArea>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						No one is waiting for an opponent right now.
+					</p>
+				)}
+			</div>
+			<div>
+				<h3 className="mb-2 font-semibold">Live Battles</h3>
+				{lobby.active.length > 0 ? (
+					<ScrollArea className="h-64">
+						<ul className="space-y-2 pr-3">
+							{lobby.active.map((battle) => renderBattle(battle, "watch"))}
+						</ul>
+					</ScrollArea>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						No battles are being played right now.
+					</p>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,10 +1,14 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
-import type { PlayerDecision, PlayerRequest } from "@/lib/battle-types";
+import React, { useEffect, useRef } from "react";
+import type {
+	PlayerDecision,
+	PlayerRequest,
+	TurnTimerView,
+} from "@/lib/battle-types";
 import type { Battle } from "@pkmn/client";
 import { Badge } from "@/components/ui/badge";
-import { generation } from "@/lib/constants";
+import { getGenerationFromFormat } from "@/lib/constants";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import PlayerDisplay from "@/components/PlayerDisplay";
@@ -15,8 +19,21 @@ interface BattleViewProps {
 	formattedLogs: string[];
 	playerRequest: PlayerRequest | null;
 	playerRole: "p1" | "p2";
-	onDecision: (decision: PlayerDecision | null) => void;
+	format: string;
+	onDecision: (decision: PlayerDecision) => void;
+	// Ask the server to take back the locked-in decision
+	onCancelDecision?: () => void;
+	// Decision the player has locked in for the current request, if any
+	submittedDecision?: PlayerDecision | null;
 	winner: string | null | undefined;
+	// Show the battle without any controls for making decisions
+	readOnly?: boolean;
+	// Show both sides the same way, from neither player's perspective
+	spectating?: boolean;
+	// Each player's rating in this format, if they have one
+	ratings?: Partial<Record<"p1" | "p2", number>>;
+	// Each player's battle timer, once the server is timing the battle
+	timers?: Partial<Record<"p1" | "p2", TurnTimerView>>;
 }
 
 /**
@@ -28,12 +45,17 @@ export default function BattleView({
 	formattedLogs,
 	playerRequest,
 	playerRole,
+	format,
 	onDecision,
+	onCancelDecision = () => {},
+	submittedDecision = null,
 	winner,
+	readOnly = false,
+	spectating = false,
+	ratings = {},
+	timers = {},
 }: BattleViewProps) {
 	const logScrollAreaRef = useRef<HTMLDivElement>(null);
-	const [selectedDecision, setSelectedDecision] =
-		useState<PlayerDecision | null>(null);
 
 	// Scroll logs to bottom when they update
 	// biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
@@ -48,18 +70,6 @@ export default function BattleView({
 		}
 	}, [formattedLogs]);
 
-	// Handle internal decision selection and pass up
-	const handleLocalDecision = (decision: PlayerDecision | null) => {
-		setSelectedDecision(decision);
-		onDecision(decision);
-	};
-
-	// Reset local selection when a new request comes in or turn changes
-	// biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
-	useEffect(() => {
-		setSelectedDecision(null);
-	}, [playerRequest, clientBattle?.turn]);
-
 	// Render battle logs from formatted logs prop
 	const renderBattleLogs = () => {
 		const turn = clientBattle?.turn ?? 0;
@@ -96,12 +106,27 @@ export default function BattleView({
 		);
 	};
 
+	// Label a side with its player's name and rating
+	const renderPlayerName = (side: "p1" | "p2") => (
+		<p className="mb-2 flex items-center justify-center gap-2 font-semibold">
+			{clientBattle[side]?.name || side.toUpperCase()}
+			{ratings[side] !== undefined && (
+				<Badge variant="outline" title="Rating in this format">
+					{ratings[side]}
+				</Badge>
+			)}
+		</p>
+	);
+
 	if (!clientBattle) {
 		return <div>Waiting for battle data...</div>;
 	}
 
 	const isEnded = winner !== undefined;
-	const opponentRole = playerRole === "p1" ? "p2" : "p1";
+	// Spectators always see p1 on the left and p2 on the right
+	const selfRole = spectating ? "p1" : playerRole;
+	const opponentRole = selfRole === "p1" ? "p2" : "p1";
+	const generation = getGenerationFromFormat(format);
 
 	return (
 		<div className="flex flex-col w-full max-w-7xl mx-auto space-y-4">
@@ -135,14 +160,19 @@ export default function BattleView({
 			<div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
 				{/* Player Display (Self) */}
 				<div className="col-span-1">
+					{renderPlayerName(selfRole)}
 					<PlayerDisplay
-						player={playerRole}
+						player={selfRole}
 						battle={clientBattle}
-						request={playerRequest}
+						request={spectating ? null : playerRequest}
+						format={format}
 						generation={generation}
-						selectedDecision={selectedDecision}
-						onDecision={handleLocalDecision}
-						isSelf={true}
+						selectedDecision={submittedDecision}
+						onDecision={onDecision}
+						onCancelDecision={onCancelDecision}
+						isSelf={!spectating}
+						readOnly={readOnly || spectating}
+						timer={timers[selfRole]}
 					/>
 				</div>
 
@@ -151,14 +181,19 @@ export default function BattleView({
 
 				{/* Opponent Display */}
 				<div className="col-span-1">
+					{renderPlayerName(opponentRole)}
 					<PlayerDisplay
 						player={opponentRole}
 						battle={clientBattle}
 						request={null} // Opponent requests not needed
+						format={format}
 						generation={generation}
 						selectedDecision={null}
 						onDecision={() => {}}
+						onCancelDecision={() => {}}
 						isSelf={false}
+						readOnly={readOnly || spectating}
+						timer={timers[opponentRole]}
 					/>
 				</div>
 			</div>
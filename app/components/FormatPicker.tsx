@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+	Command,
+	CommandEmpty,
+	CommandGroup,
+	CommandInput,
+	CommandItem,
+	CommandList,
+} from "@/components/ui/command";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { type FormatOption, getFormatOptions } from "@/lib/formats";
+
+interface FormatPickerProps {
+	value: string;
+	onChange: (formatId: string) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Searchable picker for the simulator's formats, grouped by generation
+ */
+export default function FormatPicker({
+	value,
+	onChange,
+	disabled,
+}: FormatPickerProps) {
+	const [open, setOpen] = useState(false);
+	const formats = getFormatOptions();
+
+	const formatsByGen = useMemo(() => {
+		const groups = new Map<number, FormatOption[]>();
+		for (const format of formats) {
+			const group = groups.get(format.gen) ?? [];
+			group.push(format);
+			groups.set(format.gen, group);
+		}
+		return Array.from(groups.entries());
+	}, [formats]);
+
+	const selected = formats.find((format) => format.id === value);
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button
+					variant="outline"
+					aria-expanded={open}
+					className="w-full justify-between"
+					disabled={disabled}
+				>
+					{selected?.name ?? value}
+					<ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+				<Command>
+					<CommandInput placeholder="Search formats..." />
+					<CommandList>
+						<CommandEmpty>No format found.</CommandEmpty>
+						{formatsByGen.map(([gen, group]) => (
+							<CommandGroup key={gen} heading={`Generation ${gen}`}>
+								{group.map((format) => (
+									<CommandItem
+										key={format.id}
+										value={format.name}
+										onSelect={() => {
+											onChange(format.id);
+											setOpen(false);
+										}}
+									>
+										<Check
+											className={cn(
+												"mr-2 h-4 w-4",
+												value === format.id ? "opacity-100" : "opacity-0",
+											)}
+										/>
+										{format.name}
+										{format.gameType !== "singles" && (
+											<span className="ml-auto text-xs text-muted-foreground capitalize">
+												{format.gameType}
+											</span>
+										)}
+									</CommandItem>
+								))}
+							</CommandGroup>
+						))}
+					</CommandList>
+				</Command>
+			</PopoverContent>
+		</Popover>
+	);
+}
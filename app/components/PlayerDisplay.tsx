@@ -1,6 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import type { Battle } from "@pkmn/client";
-import type { PlayerRequest, PlayerDecision } from "@/lib/battle-types";
+import type {
+	PlayerRequest,
+	PlayerDecision,
+	SlotDecision,
+	TurnTimerView,
+} from "@/lib/battle-types";
 import type { GenerationNum } from "@pkmn/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -12,35 +17,65 @@ import {
 import { TypeBadge } from "@/components/ui/type-badge";
 import BattleMoveButton from "./BattleMoveButton";
 import SwitchButton from "./SwitchButton";
+import TurnTimer from "./TurnTimer";
 import { getSprite, parseCondition, getHPColor } from "@/utils/pokemonUtils";
+import {
+	type Gimmick,
+	fillPassSlots,
+	getAvailableGimmicks,
+	getMoveTargets,
+	getSlotCount,
+	getSlotMoveTarget,
+	getSwitchOptions,
+	getTeamPreviewOrder,
+} from "@/utils/decisionUtils";
 import { getStatusClass, getStatusName } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Dex } from "@pkmn/sim";
-import { generation } from "@/lib/constants";
 
 interface PlayerDisplayProps {
 	player: "p1" | "p2";
 	battle: Battle | null;
 	request: PlayerRequest | null;
+	format: string;
 	generation: GenerationNum;
+	// Decision locked in for the current request, if any
 	selectedDecision: PlayerDecision | null;
-	onDecision: (decision: PlayerDecision | null) => void;
+	onDecision: (decision: PlayerDecision) => void;
+	onCancelDecision: () => void;
 	isSelf: boolean;
+	// Hide the action panel, e.g. when watching a replay
+	readOnly?: boolean;
+	// The player's battle timer, once the server is timing the battle
+	timer?: TurnTimerView;
 }
 
-// Initialize Dex for local data lookups
-const localDex = Dex.forFormat(`gen${generation}randombattle`);
-
 export default function PlayerDisplay({
 	player,
 	battle,
 	request,
+	format,
 	generation,
 	selectedDecision,
 	onDecision,
+	onCancelDecision,
 	isSelf,
+	readOnly = false,
+	timer,
 }: PlayerDisplayProps) {
 	const [showingSwitchOptions, setShowingSwitchOptions] = useState(false);
+	// Dex for local data lookups, following the battle's format
+	const localDex = useMemo(() => Dex.forFormat(format), [format]);
+	// Choices made so far for the current request, one per active slot
+	const [pendingChoices, setPendingChoices] = useState<SlotDecision[]>([]);
+	// Move waiting for a target to be picked (multi-battles only)
+	const [pendingMoveIndex, setPendingMoveIndex] = useState<number | null>(
+		null,
+	);
+	// Gimmick toggled for the slot being decided
+	const [gimmick, setGimmick] = useState<Gimmick | null>(null);
+	// Team indices picked at team preview, in the order they will be sent out
+	const [teamOrder, setTeamOrder] = useState<number[]>([]);
 
 	if (!battle) {
 		return (
@@ -52,16 +87,24 @@ export default function PlayerDisplay({
 		);
 	}
 
-	// Reset switch view when request changes
+	// Reset per-slot selection when request changes
 	// biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
 	useEffect(() => {
 		setShowingSwitchOptions(false);
+		setPendingMoveIndex(null);
+		setGimmick(null);
+		setTeamOrder([]);
+		setPendingChoices(request ? fillPassSlots(request, []) : []);
 	}, [request?.rqid]);
 
-	const pokemon = battle[player].active[0];
-	const pokemonFromRequest = request?.side.pokemon.find((p) => p.active);
+	const activePokemon = battle[player].active;
+
+	const renderInfo = (slot: number) => {
+		const pokemon = activePokemon[slot];
+		const pokemonFromRequest = request?.side.pokemon[slot]?.active
+			? request.side.pokemon[slot]
+			: undefined;
 
-	const renderInfo = () => {
 		if (!pokemon) {
 			return (
 				<div className="text-center text-muted-foreground italic h-32 flex items-center justify-center">
@@ -153,6 +196,69 @@ export default function PlayerDisplay({
 		);
 	};
 
+	const slotCount = getSlotCount(request);
+	const isLockedIn = selectedDecision !== null;
+	const choices = selectedDecision?.choices ?? pendingChoices;
+	// Every slot has a choice, waiting for the player to lock it in
+	const isReady =
+		!isLockedIn && slotCount > 0 && pendingChoices.length >= slotCount;
+	const isChosen = isLockedIn || isReady;
+
+	// Slot currently being decided. Once every slot is chosen, the last slot that needed
+	// input stays on screen so the choice can be changed or cancelled.
+	const lastActionSlot = choices.reduce(
+		(last, choice, index) => (choice.type === "pass" ? last : index),
+		0,
+	);
+	const activeSlot = isChosen
+		? lastActionSlot
+		: Math.min(pendingChoices.length, Math.max(slotCount - 1, 0));
+	const activeSlotChoice = isChosen ? choices[activeSlot] : undefined;
+
+	const resetChoices = () => {
+		setShowingSwitchOptions(false);
+		setPendingMoveIndex(null);
+		setGimmick(null);
+		setPendingChoices(request ? fillPassSlots(request, []) : []);
+	};
+
+	const commitChoice = (choice: SlotDecision) => {
+		// A locked-in decision has to be cancelled before it can be changed
+		if (!request || isLockedIn) return;
+		const next = fillPassSlots(request, [
+			...choices.slice(0, activeSlot),
+			choice,
+		]);
+
+		setShowingSwitchOptions(false);
+		setPendingMoveIndex(null);
+		setGimmick(null);
+		setPendingChoices(next);
+	};
+
+	const lockIn = () => {
+		if (isReady) onDecision({ choices: pendingChoices });
+	};
+
+	// Take back a locked-in decision, keeping the choices so they can be changed,
+	// or clear the choices made so far
+	const cancelChoices = () => {
+		if (isLockedIn) onCancelDecision();
+		else resetChoices();
+	};
+
+	// Undo the choice for the previous slot that needed input
+	const goBackOneSlot = () => {
+		let previous = pendingChoices.length - 1;
+		while (previous > 0 && pendingChoices[previous].type === "pass") {
+			previous--;
+		}
+		setShowingSwitchOptions(false);
+		setPendingMoveIndex(null);
+		setGimmick(null);
+		setPendingChoices(pendingChoices.slice(0, Math.max(previous, 0)));
+	};
+
 	const renderActionSection = () => {
 		if (!isSelf) {
 			return (
@@ -162,21 +268,88 @@ export default function PlayerDisplay({
 			);
 		}
 
-		const needsToSwitch = request?.forceSwitch?.[0] === true;
+		if (request?.teamPreview) return renderTeamPreview(request);
+
+		const slotRequest = request?.active?.[activeSlot];
+		const needsToSwitch = request?.forceSwitch?.[activeSlot] === true;
 		const canMove =
 			request &&
 			!request.wait &&
-			request.active?.[0]?.moves &&
-			request.active[0].moves.length > 0;
-		const isTrapped = request?.active?.[0]?.trapped === true;
-		const canSwitch = !isTrapped && request?.active?.[0]?.canSwitch !== false;
+			slotRequest?.moves &&
+			slotRequest.moves.length > 0;
+		const isTrapped = slotRequest?.trapped === true;
+		const canSwitch = !isTrapped && slotRequest?.canSwitch !== false;
+		const isMultiSlot = slotCount > 1;
+		const gimmicks = getAvailableGimmicks(
+			slotRequest,
+			choices.slice(0, activeSlot),
+		);
 
-		const renderSwitchOptions = (showTitle = true) => {
-			const switchOptions = request?.side.pokemon.filter(
-				(p) => !p.active && p.condition !== "0 fnt",
+		const chooseMove = (moveIndex: number, targetIndex?: number) => {
+			commitChoice({
+				type: "move",
+				moveIndex,
+				...(targetIndex ? { targetIndex } : {}),
+				...(gimmick ? { [gimmick]: true } : {}),
+			});
+		};
+
+		const renderGimmickToggles = () => {
+			if (!gimmicks.length) return null;
+
+			return (
+				<div className="flex flex-wrap gap-2">
+					{gimmicks.map((option) => (
+						<Button
+							key={option.gimmick}
+							variant={gimmick === option.gimmick ? "default" : "outline"}
+							size="sm"
+							aria-pressed={gimmick === option.gimmick}
+							onClick={() =>
+								setGimmick(gimmick === option.gimmick ? null : option.gimmick)
+							}
+						>
+							{option.label}
+						</Button>
+					))}
+				</div>
 			);
+		};
+		const canGoBack =
+			!isLockedIn && pendingChoices.some((choice) => choice.type !== "pass");
 
-			if (!switchOptions?.length)
+		const renderSlotControls = (extra?: React.ReactNode) => (
+			<div className="flex justify-end gap-2 pt-2">
+				{extra}
+				{isReady && (
+					<Button size="sm" onClick={lockIn}>
+						Lock in
+					</Button>
+				)}
+				{isMultiSlot && canGoBack && (
+					<Button variant="outline" size="sm" onClick={goBackOneSlot}>
+						Back
+					</Button>
+				)}
+				{(isChosen || canGoBack || pendingMoveIndex !== null) && (
+					<Button
+						variant="ghost"
+						size="sm"
+						className="text-destructive hover:text-destructive/90"
+						onClick={cancelChoices}
+					>
+						Cancel Selection
+					</Button>
+				)}
+			</div>
+		);
+
+		const renderSwitchOptions = (showTitle = true) => {
+			const switchIndices = request
+				? getSwitchOptions(request, choices.slice(0, activeSlot))
+				: [];
+
+			if (!switchIndices.length)
 				return (
 					<p className="text-sm text-muted-foreground text-center">
 						No Pokémon available to switch.
@@ -190,28 +363,27 @@ export default function PlayerDisplay({
 							Switch to:
 						</h3>
 					)}
-					{switchOptions.map((pokemonInfo) => {
-						const originalIndex =
-							request?.side.pokemon.findIndex(
-								(p) => p.ident === pokemonInfo.ident,
-							) ?? -1;
-						const switchIndex = originalIndex + 1;
-						if (originalIndex === -1) return null;
+					{switchIndices.map((switchIndex) => {
+						const pokemonInfo = request?.side.pokemon[switchIndex - 1];
+						if (!pokemonInfo) return null;
 						const isSelected =
-							selectedDecision?.type === "switch" &&
-							selectedDecision.pokemonIndex === switchIndex;
+							activeSlotChoice?.type === "switch" &&
+							activeSlotChoice.pokemonIndex === switchIndex;
 
 						return (
 							<SwitchButton
 								key={pokemonInfo.ident}
 								pokemonInfo={pokemonInfo}
+								generation={generation}
 								isSelected={isSelected}
 								onClick={() => {
-									if (isSelected) onDecision(null);
+									if (isSelected) cancelChoices();
 									else
-										onDecision({ type: "switch", pokemonIndex: switchIndex });
+										commitChoice({ type: "switch", pokemonIndex: switchIndex });
 								}}
-								disabled={isTrapped}
+								disabled={
+									(isTrapped && !needsToSwitch) || (isLockedIn && !isSelected)
+								}
 							/>
 						);
 					})}
@@ -219,19 +391,70 @@ export default function PlayerDisplay({
 			);
 		};
 
+		const renderTargetOptions = (moveIndex: number) => {
+			const moveInfo = slotRequest?.moves[moveIndex - 1];
+			const targets = moveInfo
+				? getMoveTargets(
+						battle,
+						player,
+						activeSlot,
+						getSlotMoveTarget(slotRequest, moveIndex, gimmick),
+					)
+				: [];
+
+			return (
+				<div className="space-y-2">
+					<h3 className="text-sm font-medium text-muted-foreground mb-2">
+						Choose a target for{" "}
+						{localDex.moves.get(moveInfo?.id ?? "")?.name ?? "move"}:
+					</h3>
+					<div className="grid grid-cols-2 gap-2.5">
+						{targets.map((target) => (
+							<Button
+								key={target.targetIndex}
+								variant={target.isAlly ? "outline" : "secondary"}
+								onClick={() => chooseMove(moveIndex, target.targetIndex)}
+							>
+								{target.isAlly ? "Ally" : "Foe"}: {target.label}
+							</Button>
+						))}
+					</div>
+					{renderSlotControls(
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setPendingMoveIndex(null)}
+						>
+							Show Moves
+						</Button>,
+					)}
+				</div>
+			);
+		};
+
 		if (needsToSwitch) {
-			return renderSwitchOptions();
+			return (
+				<div className="space-y-3">
+					{renderSwitchOptions()}
+					{renderSlotControls()}
+				</div>
+			);
+		}
+
+		if (canMove && pendingMoveIndex !== null) {
+			return renderTargetOptions(pendingMoveIndex);
 		}
 
 		if (canMove) {
-			const moves = request?.active?.[0]?.moves ?? [];
-			const isSelectedMove = selectedDecision?.type === "move";
-			const isSelectedSwitch = selectedDecision?.type === "switch";
+			const moves = slotRequest?.moves ?? [];
+			const isSelectedMove = activeSlotChoice?.type === "move";
+			const isSelectedSwitch = activeSlotChoice?.type === "switch";
 
 			return (
 				<div className="space-y-3">
 					{!showingSwitchOptions ? (
 						<>
+							{renderGimmickToggles()}
 							<div className="grid grid-cols-2 gap-2.5">
 								{moves.map((moveInfo, index) => {
 									const moveData = localDex.moves.get(moveInfo.id);
@@ -248,10 +471,14 @@ export default function PlayerDisplay({
 									}
 
 									const isDisabled = moveInfo.disabled;
-									const isButtonDisabled = isDisabled || moveInfo.pp <= 0;
 									const moveIndex = index + 1;
+									const isButtonDisabled =
+										isDisabled ||
+										moveInfo.pp <= 0 ||
+										(gimmick === "zmove" && !slotRequest?.canZMove?.[index]);
 									const isCurrentlySelected =
-										isSelectedMove && selectedDecision.moveIndex === moveIndex;
+										activeSlotChoice?.type === "move" &&
+										activeSlotChoice.moveIndex === moveIndex;
 
 									return (
 										<BattleMoveButton
@@ -259,23 +486,37 @@ export default function PlayerDisplay({
 											move={moveData}
 											pp={moveInfo.pp}
 											maxPp={moveInfo.maxpp}
-											disabled={isButtonDisabled || isSelectedSwitch}
+											disabled={
+												isButtonDisabled ||
+												isSelectedSwitch ||
+												(isLockedIn && !isCurrentlySelected)
+											}
 											isDisabled={isDisabled}
 											isSelected={isCurrentlySelected}
 											onClick={() => {
 												if (isButtonDisabled) return;
 												if (isCurrentlySelected) {
-													onDecision(null);
+													cancelChoices();
+													return;
+												}
+												const targets = getMoveTargets(
+													battle,
+													player,
+													activeSlot,
+													getSlotMoveTarget(slotRequest, moveIndex, gimmick),
+												);
+												if (targets.length > 0) {
+													setPendingMoveIndex(moveIndex);
 												} else {
-													onDecision({ type: "move", moveIndex: moveIndex });
+													chooseMove(moveIndex);
 												}
 											}}
 										/>
 									);
 								})}
 							</div>
-							<div className="flex justify-end gap-2 pt-2">
-								{canSwitch && (
+							{renderSlotControls(
+								canSwitch && (
 									<Button
 										variant="outline"
 										size="sm"
@@ -284,23 +525,13 @@ export default function PlayerDisplay({
 									>
 										Switch Pokémon
 									</Button>
-								)}
-								{selectedDecision && (
-									<Button
-										variant="ghost"
-										size="sm"
-										className="text-destructive hover:text-destructive/90"
-										onClick={() => onDecision(null)}
-									>
-										Cancel Selection
-									</Button>
-								)}
-							</div>
+								),
+							)}
 						</>
 					) : (
 						<>
 							{renderSwitchOptions(false)}
-							<div className="flex justify-end gap-2 pt-2">
+							{renderSlotControls(
 								<Button
 									variant="outline"
 									size="sm"
@@ -308,18 +539,8 @@ export default function PlayerDisplay({
 									disabled={isSelectedSwitch}
 								>
 									Show Moves
-								</Button>
-								{selectedDecision && (
-									<Button
-										variant="ghost"
-										size="sm"
-										className="text-destructive hover:text-destructive/90"
-										onClick={() => onDecision(null)}
-									>
-										Cancel Selection
-									</Button>
-								)}
-							</div>
+								</Button>,
+							)}
 						</>
 					)}
 				</div>
@@ -341,20 +562,138 @@ export default function PlayerDisplay({
 		);
 	};
 
+	const renderTeamPreview = (previewRequest: PlayerRequest) => {
+		const lockedChoice = selectedDecision?.choices[0];
+		const picked =
+			lockedChoice?.type === "team" ? lockedChoice.order : teamOrder;
+
+		const togglePick = (position: number) => {
+			setTeamOrder(
+				teamOrder.includes(position)
+					? teamOrder.filter((other) => other !== position)
+					: [...teamOrder, position],
+			);
+		};
+
+		return (
+			<div className="space-y-3">
+				<p className="text-sm text-muted-foreground">
+					Pick Pokémon in the order to send them out, leads first. The rest
+					follow in team order.
+				</p>
+				<div className="space-y-2">
+					{previewRequest.side.pokemon.map((pokemonInfo, index) => {
+						const pickedAt = picked.indexOf(index + 1);
+						return (
+							<div key={pokemonInfo.ident} className="flex items-center gap-2">
+								<span className="w-4 text-right text-sm font-medium text-muted-foreground">
+									{pickedAt >= 0 ? pickedAt + 1 : ""}
+								</span>
+								<div className="flex-1">
+									<SwitchButton
+										pokemonInfo={pokemonInfo}
+										generation={generation}
+										isSelected={pickedAt >= 0}
+										onClick={() => togglePick(index + 1)}
+										disabled={isLockedIn}
+									/>
+								</div>
+							</div>
+						);
+					})}
+				</div>
+				<div className="flex justify-end gap-2 pt-2">
+					{isLockedIn ? (
+						<Button
+							variant="ghost"
+							size="sm"
+							className="text-destructive hover:text-destructive/90"
+							onClick={onCancelDecision}
+						>
+							Cancel Selection
+						</Button>
+					) : (
+						<>
+							{teamOrder.length > 0 && (
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => setTeamOrder([])}
+								>
+									Clear
+								</Button>
+							)}
+							<Button
+								size="sm"
+								onClick={() =>
+									onDecision({
+										choices: [
+											{
+												type: "team",
+												order: getTeamPreviewOrder(previewRequest, teamOrder),
+											},
+										],
+									})
+								}
+							>
+								Lock in
+							</Button>
+						</>
+					)}
+				</div>
+			</div>
+		);
+	};
+
 	const getActionTitle = () => {
 		if (!isSelf) return "Opponent's Action";
-		if (request?.forceSwitch?.[0]) return "Choose Switch";
 		if (request?.wait) return "Waiting...";
-		if (request?.active?.[0]?.moves) return "Choose Action";
+		if (request?.teamPreview) return "Team Preview";
+
+		const slotName =
+			slotCount > 1
+				? ` (${activePokemon[activeSlot]?.name ?? `Slot ${activeSlot + 1}`})`
+				: "";
+		if (request?.forceSwitch?.[activeSlot]) return `Choose Switch${slotName}`;
+		if (request?.active?.[activeSlot]?.moves) return `Choose Action${slotName}`;
 		return "Action";
 	};
 
+	const isMultiBattle = activePokemon.length > 1;
+
 	return (
 		<div className="flex flex-col space-y-4 w-full">
+			{timer && (
+				<div className="flex justify-end -mb-2">
+					<TurnTimer timer={timer} />
+				</div>
+			)}
 			<Card>
-				<CardContent className="pt-5 pb-4">{renderInfo()}</CardContent>
+				<CardContent
+					className={
+						isMultiBattle
+							? "pt-5 pb-4 grid grid-cols-2 gap-4 xl:grid-cols-3"
+							: "pt-5 pb-4"
+					}
+				>
+					{activePokemon.length === 0
+						? renderInfo(0)
+						: activePokemon.map((pokemon, slot) => (
+								<div
+									// biome-ignore lint/suspicious/noArrayIndexKey: active slots are positional
+									key={slot}
+									className={
+										isSelf && slot === activeSlot && isMultiBattle
+											? "rounded-lg ring-1 ring-primary/40 p-1"
+											: undefined
+									}
+								>
+									{renderInfo(slot)}
+								</div>
+							))}
+				</CardContent>
 			</Card>
-			{isSelf ? (
+			{readOnly ? null : isSelf ? (
 				<Card>
 					<CardHeader className="py-2 px-4 border-b">
 						<CardTitle className="text-base font-medium">
@@ -2,7 +2,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useSocketStore } from "@/store/socket"; // Adjust path if needed
+import { getStoredSession, useSocketStore } from "@/store/socket"; // Adjust path if needed
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
 	const connect = useSocketStore((state) => state.connect);
@@ -10,6 +10,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
 	const isConnected = useSocketStore((state) => state.isConnected);
 	const socketId = useSocketStore((state) => state.socketId);
 	const userId = useSocketStore((state) => state.userId);
+	const setSession = useSocketStore((state) => state.setSession);
 
 	useEffect(() => {
 		// Function to get or set user ID (client-side only)
@@ -38,6 +39,15 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
 		}
 
 		if (!isConnected && !userId) {
+			// Signed-in accounts connect with their session instead of the guest ID
+			const session = getStoredSession();
+			if (session) {
+				console.log("Attempting connection as signed-in user:", session.userId);
+				setSession(session);
+				connect(session.userId);
+				return;
+			}
+
 			// Check if not connected AND userId isn't set yet
 			const currentUserId = getOrSetUserIdClientSide();
 			// If ID was already available synchronously, connect immediately
@@ -56,7 +66,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
 		//     disconnect();
 		// };
 		// Re-run effect if connect function reference changes (should be stable with Zustand)
-	}, [connect, isConnected, userId]);
+	}, [connect, isConnected, userId, setSession]);
 
 	// Display connection status (optional)
 	console.log(
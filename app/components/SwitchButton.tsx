@@ -5,14 +5,15 @@ import { Badge } from "./ui/badge";
 import { parseCondition, getHPColor } from "@/utils/pokemonUtils";
 import { getStatusClass, getStatusName } from "@/lib/utils";
 import { Sprites } from "@pkmn/img";
-import { generation, getGraphics } from "@/lib/constants";
+import { getGraphics } from "@/lib/constants";
 import type { PlayerRequest } from "@/lib/battle-types";
-import type { GenderName } from "@pkmn/types";
+import type { GenderName, GenerationNum } from "@pkmn/types";
 
 type PokemonInfo = NonNullable<PlayerRequest["side"]["pokemon"][number]>;
 
 interface SwitchButtonProps {
 	pokemonInfo: PokemonInfo;
+	generation: GenerationNum;
 	onClick: () => void;
 	disabled?: boolean;
 	isSelected?: boolean;
@@ -20,6 +21,7 @@ interface SwitchButtonProps {
 
 export default function SwitchButton({
 	pokemonInfo,
+	generation,
 	onClick,
 	disabled,
 	isSelected,
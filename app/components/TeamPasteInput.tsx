@@ -0,0 +1,98 @@
+import React, { useMemo } from "react";
+import { Teams } from "@pkmn/sets";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useSocketStore } from "@/store/socket";
+import type { TeamProblemField } from "@/lib/battle-types";
+
+const FIELD_LABELS: Record<TeamProblemField, string> = {
+	species: "Species",
+	ability: "Ability",
+	item: "Item",
+	moves: "Moves",
+	nature: "Nature",
+	evs: "EVs",
+	ivs: "IVs",
+	level: "Level",
+	team: "Team",
+};
+
+interface TeamPasteInputProps {
+	disabled?: boolean;
+}
+
+/**
+ * Text area for a Showdown-format team paste, with a preview of the parsed team
+ */
+export default function TeamPasteInput({ disabled }: TeamPasteInputProps) {
+	const teamPaste = useSocketStore((state) => state.teamPaste);
+	const setTeamPaste = useSocketStore((state) => state.setTeamPaste);
+	const teamProblems = useSocketStore((state) => state.teamProblems);
+
+	const species = useMemo(() => {
+		if (!teamPaste.trim()) return [];
+		const team = Teams.importTeam(teamPaste);
+		return (
+			team?.team.map((set, index) => ({
+				key: `${index}-${set.species}`,
+				name: set.species || set.name || "???",
+			})) ?? []
+		);
+	}, [teamPaste]);
+
+	const hasPaste = teamPaste.trim().length > 0;
+
+	return (
+		<div className="space-y-2">
+			<Label htmlFor="teamPasteInput" className="block text-sm font-medium">
+				Team (Showdown paste)
+			</Label>
+			<Textarea
+				id="teamPasteInput"
+				placeholder="Paste a team exported from Showdown, or leave blank for a random team..."
+				className="font-mono text-xs max-h-64"
+				value={teamPaste}
+				onChange={(e) => setTeamPaste(e.target.value)}
+				disabled={disabled}
+				aria-invalid={(hasPaste && species.length === 0) || !!teamProblems}
+			/>
+			{hasPaste && species.length === 0 && (
+				<p className="text-xs text-destructive">
+					Could not read any Pokémon from this paste.
+				</p>
+			)}
+			{species.length > 0 && (
+				<div className="flex flex-wrap gap-1.5">
+					{species.map(({ key, name }, index) => (
+						<Badge
+							key={key}
+							variant={
+								teamProblems?.some((p) => p.pokemonIndex === index)
+									? "destructive"
+									: "secondary"
+							}
+						>
+							{name}
+						</Badge>
+					))}
+				</div>
+			)}
+			{teamProblems && teamProblems.length > 0 && (
+				<ul className="space-y-1 text-xs text-destructive">
+					{teamProblems.map((problem) => (
+						<li key={`${problem.pokemonIndex}-${problem.message}`}>
+							<span className="font-semibold">
+								{problem.species ?? FIELD_LABELS.team}
+								{problem.pokemonIndex !== null &&
+									` (${FIELD_LABELS[problem.field]})`}
+								:
+							</span>{" "}
+							{problem.message}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
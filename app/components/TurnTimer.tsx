@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { Timer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { TurnTimerView } from "@/lib/battle-types";
+
+// Time left at which the timer turns red
+const LOW_TIME_MS = 15 * 1000;
+
+interface TurnTimerProps {
+	timer: TurnTimerView;
+}
+
+/**
+ * Formats milliseconds as minutes and seconds, rounding up so 0:00 only shows once time is up
+ */
+function formatTime(ms: number): string {
+	const totalSeconds = Math.ceil(ms / 1000);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Shows a player's remaining time, counting down while they are deciding
+ */
+export default function TurnTimer({ timer }: TurnTimerProps) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		if (!timer.running) return;
+		setNow(Date.now());
+		const interval = setInterval(() => setNow(Date.now()), 250);
+		return () => clearInterval(interval);
+	}, [timer]);
+
+	const remainingMs = timer.running
+		? Math.max(0, timer.remainingMs - (now - timer.receivedAt))
+		: timer.remainingMs;
+
+	return (
+		<Badge
+			variant={timer.running ? "default" : "outline"}
+			className={cn(
+				"gap-1 font-mono tabular-nums",
+				timer.running && remainingMs <= LOW_TIME_MS && "bg-red-600",
+			)}
+			title={timer.running ? "Time left for this turn" : "Time left in bank"}
+		>
+			<Timer className="w-3 h-3" />
+			{formatTime(remainingMs)}
+		</Badge>
+	);
+}
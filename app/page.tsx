@@ -8,22 +8,47 @@ import {
 	CardContent,
 	CardFooter,
 } from "@/components/ui/card";
-import { ArrowRight, Dices, Loader2, LogIn } from "lucide-react";
+import {
+	ArrowRight,
+	Bot,
+	Dices,
+	Loader2,
+	LogIn,
+	Search,
+	Users,
+	X,
+} from "lucide-react";
 import { useSocketStore } from "@/store/socket";
 
 import { useRouter } from "next/navigation";
 import { useEffect, useState, useRef } from "react";
-import { generation, getFormat } from "@/lib/constants";
+import { DEFAULT_FORMAT } from "@/lib/constants";
+import { getFormatOption } from "@/lib/formats";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { BotDifficulty } from "@/lib/battle-types";
+import TeamPasteInput from "@/components/TeamPasteInput";
+import FormatPicker from "@/components/FormatPicker";
+import BattleLobby from "@/components/BattleLobby";
+import AccountMenu from "@/components/AccountMenu";
 
 export default function Home() {
-	const { isConnected, socket, userId, emit } = useSocketStore();
+	const { isConnected, socket, userId, emit, teamPaste } = useSocketStore();
 	
 	const router = useRouter();
 	const [isCreatingBattle, setIsCreatingBattle] = useState(false);
 	const [isJoiningBattle, setIsJoiningBattle] = useState(false);
+	const [isSearching, setIsSearching] = useState(false);
 	const [joinBattleId, setJoinBattleId] = useState("");
+	const [format, setFormat] = useState(DEFAULT_FORMAT);
+	const [difficulty, setDifficulty] = useState<BotDifficulty>("normal");
 	const [error, setError] = useState<string | null>(null);
 	const joinTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 	const createTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -49,6 +74,7 @@ export default function Home() {
 		const handleError = (data: { message: string }) => {
 			console.error("Received server error:", data.message);
 			setError(`Operation failed: ${data.message}`);
+			setIsSearching(false);
 			if (isCreatingBattle) {
 				if (createTimeoutRef.current) clearTimeout(createTimeoutRef.current);
 				setIsCreatingBattle(false);
@@ -59,33 +85,79 @@ export default function Home() {
 			}
 		};
 
+		const handleTeamInvalid = (data: { format: string }) => {
+			console.warn("Received server:team_invalid", data);
+			setError(`Your team is not legal in ${data.format}.`);
+			if (createTimeoutRef.current) clearTimeout(createTimeoutRef.current);
+			setIsCreatingBattle(false);
+		};
+
+		// Matched players are already assigned to the battle, so go straight to it
+		const handleBattleJoined = (data: { battleId: string }) => {
+			console.log("Received server:battle_joined", data);
+			setIsSearching(false);
+			router.push(`/battle/${data.battleId}`);
+		};
+
+		const handleQueueJoined = () => setIsSearching(true);
+		const handleQueueLeft = () => setIsSearching(false);
+
 		socket.on("server:battle_created", handleBattleCreated);
+		socket.on("server:battle_joined", handleBattleJoined);
+		socket.on("server:queue_joined", handleQueueJoined);
+		socket.on("server:queue_left", handleQueueLeft);
+		socket.on("server:team_invalid", handleTeamInvalid);
 
 		socket.on("server:error", handleError);
 
 		return () => {
 			cleanupTimeouts();
 			socket.off("server:battle_created", handleBattleCreated);
+			socket.off("server:battle_joined", handleBattleJoined);
+			socket.off("server:queue_joined", handleQueueJoined);
+			socket.off("server:queue_left", handleQueueLeft);
+			socket.off("server:team_invalid", handleTeamInvalid);
 			socket.off("server:error", handleError);
 		};
 	}, [socket, router, isCreatingBattle, isJoiningBattle]);
 
-	const handleCreateRandomBattle = () => {
+	// Stop searching if the player leaves the page before being matched
+	const isSearchingRef = useRef(false);
+	isSearchingRef.current = isSearching;
+	useEffect(() => {
+		return () => {
+			if (isSearchingRef.current) {
+				useSocketStore.getState().socket?.emit("client:queue_leave");
+			}
+		};
+	}, []);
+
+	const needsTeam =
+		!!getFormatOption(format)?.requiresTeam && !teamPaste.trim();
+
+	const handleCreateBattle = (opponent: "human" | "ai" = "human") => {
 		if (
 			!isConnected ||
 			!userId ||
 			!socket ||
 			isCreatingBattle ||
-			isJoiningBattle
+			isJoiningBattle ||
+			isSearching ||
+			needsTeam
 		)
 			return;
 
 		setError(null);
 		setIsCreatingBattle(true);
-		console.log("Requesting random battle creation...");
-		const format = getFormat(generation);
+		console.log(`Requesting battle creation (opponent: ${opponent})...`);
 		console.log("Format:", format);
-		emit("client:create_battle", { format, userId });
+		emit("client:create_battle", {
+			format,
+			userId,
+			team: teamPaste.trim() || undefined,
+			opponent,
+			difficulty: opponent === "ai" ? difficulty : undefined,
+		});
 
 		if (createTimeoutRef.current) clearTimeout(createTimeoutRef.current);
 		createTimeoutRef.current = setTimeout(() => {
@@ -99,6 +171,31 @@ export default function Home() {
 		}, 15000);
 	};
 
+	const handleFindMatch = () => {
+		if (
+			!isConnected ||
+			!userId ||
+			!socket ||
+			isCreatingBattle ||
+			isJoiningBattle ||
+			needsTeam
+		)
+			return;
+
+		if (isSearching) {
+			emit("client:queue_leave");
+			return;
+		}
+
+		setError(null);
+		console.log(`Joining the matchmaking queue for ${format}...`);
+		emit("client:queue_join", {
+			format,
+			userId,
+			team: teamPaste.trim() || undefined,
+		});
+	};
+
 	const handleJoinBattle = () => {
 		if (
 			!isConnected ||
@@ -134,6 +231,7 @@ export default function Home() {
 					<p className="text-xl text-muted-foreground max-w-2xl">
 						Experience thrilling Pokemon battles!
 					</p>
+					<AccountMenu />
 					{!isConnected && (
 						<p className="text-yellow-600 animate-pulse">
 							Connecting to server...
@@ -147,21 +245,44 @@ export default function Home() {
 						<CardHeader>
 							<div className="flex items-center gap-2">
 								<Dices className="w-6 h-6" />
-								<h2 className="text-2xl font-semibold">New Random Battle</h2>
+								<h2 className="text-2xl font-semibold">New Battle</h2>
 							</div>
 						</CardHeader>
-						<CardContent>
+						<CardContent className="space-y-3">
 							<p className="text-muted-foreground">
-								Create a new battle room and wait for an opponent to join.
+								Create a new battle room and wait for an opponent to join, or
+								find a match against another player. Your team below is used if
+								provided.
 							</p>
+							<div>
+								<Label className="mb-1.5 block text-sm font-medium">Format</Label>
+								<FormatPicker
+									value={format}
+									onChange={setFormat}
+									disabled={
+										!isConnected || isCreatingBattle || isJoiningBattle || isSearching
+									}
+								/>
+								{needsTeam && (
+									<p className="mt-1.5 text-xs text-muted-foreground">
+										This format needs a team. Paste one below.
+									</p>
+								)}
+							</div>
 						</CardContent>
-						<CardFooter className="mt-auto">
+						<CardFooter className="mt-auto flex flex-col gap-2">
 							<Button
 								variant="default"
 								className="w-full"
 								size="lg"
-								onClick={handleCreateRandomBattle}
-								disabled={!isConnected || isCreatingBattle || isJoiningBattle}
+								onClick={() => handleCreateBattle("human")}
+								disabled={
+									!isConnected ||
+									isCreatingBattle ||
+									isJoiningBattle ||
+									isSearching ||
+									needsTeam
+								}
 							>
 								{isCreatingBattle ? (
 									<>
@@ -176,6 +297,64 @@ export default function Home() {
 									</>
 								)}
 							</Button>
+							<Button
+								variant={isSearching ? "outline" : "secondary"}
+								className="w-full"
+								size="lg"
+								onClick={handleFindMatch}
+								disabled={
+									!isConnected || isCreatingBattle || isJoiningBattle || needsTeam
+								}
+							>
+								{isSearching ? (
+									<>
+										{" "}
+										<Loader2 className="mr-2 h-4 w-4 animate-spin" />{" "}
+										Searching... <X className="ml-2 w-4 h-4" />{" "}
+									</>
+								) : (
+									<>
+										{" "}
+										Find Match <Search className="ml-2 w-4 h-4" />{" "}
+									</>
+								)}
+							</Button>
+							<div className="flex w-full gap-2">
+								<Select
+									value={difficulty}
+									onValueChange={(value) =>
+										setDifficulty(value as BotDifficulty)
+									}
+									disabled={!isConnected || isCreatingBattle || isJoiningBattle}
+								>
+									<SelectTrigger
+										className="w-28 h-10"
+										aria-label="Computer difficulty"
+									>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="easy">Easy</SelectItem>
+										<SelectItem value="normal">Normal</SelectItem>
+										<SelectItem value="hard">Hard</SelectItem>
+									</SelectContent>
+								</Select>
+								<Button
+									variant="outline"
+									className="flex-1"
+									size="lg"
+									onClick={() => handleCreateBattle("ai")}
+									disabled={
+										!isConnected ||
+										isCreatingBattle ||
+										isJoiningBattle ||
+										isSearching ||
+										needsTeam
+									}
+								>
+									Play vs Computer <Bot className="ml-2 w-4 h-4" />
+								</Button>
+							</div>
 						</CardFooter>
 					</Card>
 
@@ -235,6 +414,30 @@ export default function Home() {
 							</Button>
 						</CardFooter>
 					</Card>
+
+					<Card className="md:col-span-2">
+						<CardHeader>
+							<div className="flex items-center gap-2">
+								<Users className="w-6 h-6" />
+								<h2 className="text-2xl font-semibold">Lobby</h2>
+							</div>
+						</CardHeader>
+						<CardContent>
+							<BattleLobby
+								disabled={
+									!isConnected || isCreatingBattle || isJoiningBattle || isSearching
+								}
+							/>
+						</CardContent>
+					</Card>
+
+					<Card className="md:col-span-2">
+						<CardContent>
+							<TeamPasteInput
+								disabled={!isConnected || isCreatingBattle || isJoiningBattle}
+							/>
+						</CardContent>
+					</Card>
 				</div>
 			</div>
 
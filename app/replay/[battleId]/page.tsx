@@ -0,0 +1,369 @@
+"use client";
+
+import React, {
+	useState,
+	useEffect,
+	useRef,
+	useMemo,
+	useCallback,
+} from "react";
+import BattleView from "@/components/BattleView";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useRouter, useParams } from "next/navigation";
+import {
+	ChevronLeft,
+	ChevronRight,
+	Download,
+	Pause,
+	Play,
+	SkipBack,
+	SkipForward,
+} from "lucide-react";
+
+import type { BattleReplay } from "@/lib/battle-types";
+
+// Import @pkmn/client and related packages
+import { Battle } from "@pkmn/client";
+import { Protocol } from "@pkmn/protocol";
+import { LogFormatter } from "@pkmn/view";
+import { Generations } from "@pkmn/data";
+import { Dex, extractChannelMessages } from "@pkmn/sim";
+import { SERVER_URL, getGenerationFromFormat } from "@/lib/constants";
+
+type Perspective = "p1" | "p2" | "omniscient";
+
+// Which protocol channel each perspective reads; -1 is the omniscient channel
+const PERSPECTIVE_CHANNELS = { p1: 1, p2: 2, omniscient: -1 } as const;
+const SPEEDS = [0.5, 1, 2, 4];
+// How long a turn stays on screen at 1x speed
+const TURN_DURATION_MS = 2000;
+
+export default function ReplayPage() {
+	const router = useRouter();
+	const params = useParams();
+	const battleId = params.battleId as string;
+
+	const [replay, setReplay] = useState<BattleReplay | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [perspective, setPerspective] = useState<Perspective>("omniscient");
+	const [stopIndex, setStopIndex] = useState(0);
+	const [playing, setPlaying] = useState(false);
+	const [speed, setSpeed] = useState(1);
+
+	// Client-side Battle State, built from the log up to the current stop
+	const battleRef = useRef<Battle | null>(null);
+	const formatterRef = useRef<LogFormatter | null>(null);
+	const appliedLinesRef = useRef<string[] | null>(null);
+	const positionRef = useRef(0);
+	const [clientBattleState, setClientBattleState] = useState<Battle | null>(
+		null,
+	);
+	const [formattedLogs, setFormattedLogs] = useState<string[]>([]);
+	const [winner, setWinner] = useState<string | null | undefined>(undefined);
+
+	// Fetch the replay
+	useEffect(() => {
+		const loadReplay = async () => {
+			try {
+				const response = await fetch(
+					`${SERVER_URL}/battles/${battleId}/replay`,
+				);
+				const data = await response.json();
+				if (!response.ok) {
+					setError(data.error || "Replay could not be loaded.");
+					return;
+				}
+				setReplay(data as BattleReplay);
+			} catch (e) {
+				console.error(`[Replay ${battleId}] Error loading replay:`, e);
+				setError("Could not reach the battle server.");
+			}
+		};
+		void loadReplay();
+	}, [battleId]);
+
+	// The log as seen from the chosen perspective
+	const lines = useMemo(() => {
+		if (!replay) return [];
+		const channel = PERSPECTIVE_CHANNELS[perspective];
+		return extractChannelMessages(replay.log.join("\n"), [channel])[channel];
+	}, [replay, perspective]);
+
+	// Positions the player stops at: the start of each turn, then the end of the battle
+	const stops = useMemo(() => {
+		const turnStarts = lines.flatMap((line, index) =>
+			line.startsWith("|turn|") ? [index + 1] : [],
+		);
+		return [...turnStarts, lines.length];
+	}, [lines]);
+	const lastStop = stops.length - 1;
+
+	// Function to process protocol lines, as in the battle page
+	const processProtocolLines = useCallback((newLines: string[]) => {
+		if (!battleRef.current || !formatterRef.current) return;
+
+		const currentLogs: string[] = [];
+		for (const line of newLines) {
+			if (!line) continue;
+			try {
+				const { args, kwArgs } = Protocol.parseBattleLine(line);
+				const html = formatterRef.current.formatHTML(args, kwArgs);
+				if (html) {
+					currentLogs.push(html);
+				}
+				battleRef.current.add(args, kwArgs);
+
+				if (args[0] === "win") setWinner(args[1] as string);
+				else if (args[0] === "tie") setWinner(null);
+			} catch (e) {
+				console.error(`Error processing protocol line: "${line}"`, e);
+				currentLogs.push(
+					`<div class="text-destructive">Error processing: ${line}</div>`,
+				);
+			}
+		}
+		battleRef.current.update();
+
+		setFormattedLogs((prev) => [...prev, ...currentLogs]);
+		setClientBattleState(
+			Object.assign(
+				Object.create(Object.getPrototypeOf(battleRef.current)),
+				battleRef.current,
+			),
+		);
+	}, []);
+
+	// Bring the client battle to the current stop, rebuilding it from the start when going back
+	useEffect(() => {
+		if (!replay || lines.length === 0) return;
+		const target = stops[Math.min(stopIndex, lastStop)];
+
+		if (appliedLinesRef.current !== lines || target < positionRef.current) {
+			// @ts-ignore Need to initialize Generations/Dex for client Battle options
+			const gens = new Generations(Dex);
+			battleRef.current = new Battle(gens);
+			formatterRef.current = new LogFormatter(
+				perspective === "p2" ? "p2" : "p1",
+				battleRef.current,
+			);
+			formatterRef.current.gen = getGenerationFromFormat(replay.format);
+			appliedLinesRef.current = lines;
+			positionRef.current = 0;
+			setFormattedLogs([]);
+			setWinner(undefined);
+		}
+
+		processProtocolLines(lines.slice(positionRef.current, target));
+		positionRef.current = target;
+	}, [
+		replay,
+		lines,
+		stops,
+		lastStop,
+		stopIndex,
+		perspective,
+		processProtocolLines,
+	]);
+
+	// Advance one turn at a time while playing
+	useEffect(() => {
+		if (!playing) return;
+		if (stopIndex >= lastStop) {
+			setPlaying(false);
+			return;
+		}
+		const timer = setTimeout(
+			() => setStopIndex((index) => Math.min(index + 1, lastStop)),
+			TURN_DURATION_MS / speed,
+		);
+		return () => clearTimeout(timer);
+	}, [playing, stopIndex, lastStop, speed]);
+
+	const goToStop = (index: number) => {
+		setStopIndex(Math.max(0, Math.min(index, lastStop)));
+	};
+
+	const handleTogglePlaying = () => {
+		// Playing from the end starts over
+		if (!playing && stopIndex >= lastStop) setStopIndex(0);
+		setPlaying(!playing);
+	};
+
+	if (error) {
+		return (
+			<div className="container mx-auto py-8 text-center">
+				<h1 className="text-3xl font-bold mb-4">Replay Unavailable</h1>
+				<Card className="mx-auto max-w-md mt-10">
+					<CardContent className="p-6 text-destructive">{error}</CardContent>
+				</Card>
+				<Button
+					variant="outline"
+					onClick={() => router.push("/")}
+					className="mt-6"
+				>
+					Return to Home
+				</Button>
+			</div>
+		);
+	}
+
+	if (!replay || !clientBattleState) {
+		return (
+			<div className="container mx-auto py-8 text-center">
+				<h1 className="text-3xl font-bold mb-4">Pokémon Battle Replay</h1>
+				<Card className="mx-auto max-w-md mt-10">
+					<CardContent className="p-6 text-center text-muted-foreground">
+						Loading replay...
+					</CardContent>
+				</Card>
+			</div>
+		);
+	}
+
+	const currentStop = Math.min(stopIndex, lastStop);
+	const stopLabel =
+		currentStop === lastStop ? "End" : `Turn ${currentStop + 1} of ${lastStop}`;
+
+	return (
+		<div className="container mx-auto py-8">
+			<div className="mb-6 flex justify-between items-center">
+				<div>
+					<h1 className="text-3xl font-bold">
+						{replay.p1Name} vs. {replay.p2Name}
+					</h1>
+					<p className="text-sm text-muted-foreground">
+						{replay.formatName} ·{" "}
+						{new Date(replay.createdAt).toLocaleDateString()}
+					</p>
+				</div>
+				<div className="flex gap-4">
+					<Button variant="outline" asChild>
+						<a href={`${SERVER_URL}/battles/${battleId}/replay?format=html`}>
+							<Download className="h-4 w-4 mr-2" />
+							Download
+						</a>
+					</Button>
+					<Button variant="outline" onClick={() => router.push("/")}>
+						Return to Home
+					</Button>
+				</div>
+			</div>
+
+			<Card className="mb-4 max-w-7xl mx-auto">
+				<CardContent className="p-4 flex flex-wrap items-center gap-4">
+					<div className="flex items-center gap-1">
+						<Button
+							variant="outline"
+							size="icon"
+							onClick={() => goToStop(0)}
+							disabled={currentStop === 0}
+							aria-label="First turn"
+						>
+							<SkipBack className="h-4 w-4" />
+						</Button>
+						<Button
+							variant="outline"
+							size="icon"
+							onClick={() => goToStop(currentStop - 1)}
+							disabled={currentStop === 0}
+							aria-label="Previous turn"
+						>
+							<ChevronLeft className="h-4 w-4" />
+						</Button>
+						<Button
+							size="icon"
+							onClick={handleTogglePlaying}
+							aria-label={playing ? "Pause" : "Play"}
+						>
+							{playing ? (
+								<Pause className="h-4 w-4" />
+							) : (
+								<Play className="h-4 w-4" />
+							)}
+						</Button>
+						<Button
+							variant="outline"
+							size="icon"
+							onClick={() => goToStop(currentStop + 1)}
+							disabled={currentStop === lastStop}
+							aria-label="Next turn"
+						>
+							<ChevronRight className="h-4 w-4" />
+						</Button>
+						<Button
+							variant="outline"
+							size="icon"
+							onClick={() => goToStop(lastStop)}
+							disabled={currentStop === lastStop}
+							aria-label="Last turn"
+						>
+							<SkipForward className="h-4 w-4" />
+						</Button>
+					</div>
+
+					<input
+						type="range"
+						min={0}
+						max={lastStop}
+						value={currentStop}
+						onChange={(e) => goToStop(Number(e.target.value))}
+						className="flex-grow accent-primary"
+						aria-label="Turn"
+					/>
+					<span className="text-sm text-muted-foreground w-28 text-right">
+						{stopLabel}
+					</span>
+
+					<Select
+						value={String(speed)}
+						onValueChange={(value) => setSpeed(Number(value))}
+					>
+						<SelectTrigger className="w-24" aria-label="Speed">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{SPEEDS.map((option) => (
+								<SelectItem key={option} value={String(option)}>
+									{option}x
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+
+					<Tabs
+						value={perspective}
+						onValueChange={(value) => setPerspective(value as Perspective)}
+					>
+						<TabsList>
+							<TabsTrigger value="p1">{replay.p1Name}</TabsTrigger>
+							<TabsTrigger value="p2">{replay.p2Name}</TabsTrigger>
+							<TabsTrigger value="omniscient">Omniscient</TabsTrigger>
+						</TabsList>
+					</Tabs>
+				</CardContent>
+			</Card>
+
+			<BattleView
+				battleId={battleId}
+				clientBattle={clientBattleState}
+				formattedLogs={formattedLogs}
+				playerRequest={null}
+				playerRole={perspective === "p2" ? "p2" : "p1"}
+				format={replay.format}
+				onDecision={() => {}}
+				winner={winner}
+				readOnly={true}
+				spectating={perspective === "omniscient"}
+			/>
+		</div>
+	);
+}
@@ -2,24 +2,73 @@
 import { v4 as uuidv4 } from "uuid";
 import { create } from "zustand";
 import { io, type Socket } from "socket.io-client";
-import type { PlayerDecision, PlayerId } from "@/lib/battle-types";
+import { SERVER_URL as HTTP_SERVER_URL } from "@/lib/constants";
+import type {
+	AuthSession,
+	BotDifficulty,
+	Lobby,
+	PlayerDecision,
+	PlayerId,
+	TeamProblem,
+	TurnTimerView,
+} from "@/lib/battle-types";
 
 // Define the shape of the server events data
 interface ServerToClientEvents {
 	"server:identified": (data: {
 		socketId: string;
 		userId: string;
+		displayName: string;
+		// Proves this browser owns the user ID when reclaiming a battle seat
+		resumeToken: string | null;
 		message: string;
 	}) => void;
 	"server:error": (data: { message: string }) => void;
+	"server:session_replaced": (data: { message: string }) => void;
 	"server:battle_created": (data: {
 		battleId: string;
 		playerRole: PlayerId;
+		format: string;
 	}) => void;
 	"server:battle_joined": (data: {
 		battleId: string;
 		playerRole: PlayerId;
+		format: string;
 		opponentUserId?: string;
+		reconnected?: boolean;
+	}) => void;
+	"server:battle_full": (data: { battleId: string; message: string }) => void;
+	"server:queue_joined": (data: { format: string }) => void;
+	"server:queue_left": (data: Record<string, never>) => void;
+	"server:lobby_update": (data: Lobby) => void;
+	"server:rating_update": (data: {
+		battleId: string;
+		ratings: Record<PlayerId, number>;
+	}) => void;
+	"server:decision_rejected": (data: {
+		battleId: string;
+		rqid?: number;
+		message: string;
+	}) => void;
+	"server:decision_cancelled": (data: { battleId: string }) => void;
+	"server:cancel_rejected": (data: {
+		battleId: string;
+		message: string;
+	}) => void;
+	"server:timer_update": (data: {
+		battleId: string;
+		timers: Record<PlayerId, Omit<TurnTimerView, "receivedAt">>;
+	}) => void;
+	"server:spectate_joined": (data: {
+		battleId: string;
+		format: string;
+		p1Name: string;
+		p2Name: string | null;
+	}) => void;
+	"server:team_invalid": (data: {
+		battleId?: string;
+		format: string;
+		problems: TeamProblem[];
 	}) => void;
 	"server:protocol": (data: { battleId: string; lines: string[] }) => void;
 	"server:battle_end": (data: {
@@ -39,14 +88,32 @@ interface ServerToClientEvents {
 
 // Define the shape of the client events data (adjust as needed)
 interface ClientToServerEvents {
-	"client:identify": (data: { userId: string }) => void;
-	"client:create_battle": (data: { format: string; userId: string }) => void;
-	"client:join_battle": (data: { battleId: string; userId: string }) => void;
+	"client:identify": (data: { userId: string; resumeToken?: string }) => void;
+	"client:create_battle": (data: {
+		format: string;
+		userId: string;
+		team?: string;
+		opponent?: "human" | "ai";
+		difficulty?: BotDifficulty;
+	}) => void;
+	"client:join_battle": (data: {
+		battleId: string;
+		userId: string;
+		team?: string;
+		resumeToken?: string;
+	}) => void;
 	"client:decision": (data: {
 		battleId: string;
-		decision: PlayerDecision | null;
-		forceSwitch?: boolean;
+		decision: PlayerDecision;
 	}) => void;
+	"client:cancel_decision": (data: { battleId: string }) => void;
+	"client:spectate": (data: { battleId: string }) => void;
+	"client:queue_join": (data: {
+		format: string;
+		userId: string;
+		team?: string;
+	}) => void;
+	"client:queue_leave": () => void;
 	"client:leave_battle": (data: { battleId: string }) => void;
 	// Add other events as needed
 }
@@ -55,19 +122,37 @@ interface SocketState {
 	socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
 	isConnected: boolean;
 	userId: string | null;
+	// Name shown to other players, set once the server identifies the client
+	displayName: string | null;
+	// Signed-in account's session, or null when playing as a guest
+	session: AuthSession | null;
 	socketId: string | null;
 	error: string | null;
 	currentBattleId: string | null;
 	playerRole: PlayerId | null;
+	// Showdown-format team paste submitted when creating or joining a battle
+	teamPaste: string;
+	// Problems reported by the server for the last submitted team
+	teamProblems: TeamProblem[] | null;
 	connect: (userId: string) => void;
 	disconnect: () => void;
 	identify: () => void;
+	setSession: (session: AuthSession | null) => void;
+	// Account actions resolve to an error message, or null on success
+	register: (username: string, password: string) => Promise<string | null>;
+	login: (username: string, password: string) => Promise<string | null>;
+	logout: () => void;
 	emit: <Event extends keyof ClientToServerEvents>(
 		event: Event,
 		...args: Parameters<ClientToServerEvents[Event]>
 	) => void; // Helper for type-safe emits
+	setTeamPaste: (teamPaste: string) => void;
 	// Add battle-specific actions
-	createBattle: (format: string) => void;
+	createBattle: (
+		format: string,
+		opponent?: "human" | "ai",
+		difficulty?: BotDifficulty,
+	) => void;
 	joinBattle: (battleId: string) => void;
 	leaveBattle: () => void;
 	makeDecision: (decision: PlayerDecision) => void;
@@ -77,14 +162,23 @@ interface SocketState {
 const SERVER_URL =
 	process.env.NEXT_PUBLIC_WEBSOCKET_URL || "ws://localhost:8080";
 
+// Where a signed-in account's session is kept between visits
+const SESSION_STORAGE_KEY = "pokemonBattleSession";
+// Where resume tokens are kept, one per user ID so signing in doesn't lose a guest's token
+const RESUME_TOKEN_STORAGE_KEY_PREFIX = "pokemonBattleResumeToken:";
+
 export const useSocketStore = create<SocketState>((set, get) => ({
 	socket: null,
 	isConnected: false,
 	userId: null,
+	displayName: null,
+	session: null,
 	socketId: null,
 	error: null,
 	currentBattleId: null,
 	playerRole: null,
+	teamPaste: "",
+	teamProblems: null,
 
 	connect: (userId) => {
 		if (get().socket) {
@@ -93,11 +187,13 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 		}
 
 		console.log(`Connecting to ${SERVER_URL} as ${userId}...`);
-		set({ userId, error: null });
+		set({ userId, displayName: null, error: null });
 
+		const session = get().session;
 		const newSocket = io(SERVER_URL, {
 			reconnectionAttempts: 5,
 			timeout: 10000,
+			auth: session ? { token: session.token } : {},
 		});
 
 		newSocket.on("connect", () => {
@@ -111,20 +207,37 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 			get().identify();
 		});
 
+		// Set when another tab takes over the session, to keep its message on screen
+		let replacedMessage: string | null = null;
+		newSocket.on("server:session_replaced", (data) => {
+			console.warn("Session taken over by another tab:", data.message);
+			replacedMessage = data.message;
+		});
+
 		newSocket.on("disconnect", (reason) => {
 			console.log(`Socket disconnected. Reason: ${reason}`);
 			set({
 				socket: null,
 				isConnected: false,
 				socketId: null,
-				error: `Disconnected: ${reason}`,
+				error: replacedMessage ?? `Disconnected: ${reason}`,
 				currentBattleId: null,
 				playerRole: null,
+				// Cleared until the server identifies us again, which rotates the resume token
+				displayName: null,
 			});
 		});
 
 		newSocket.on("connect_error", (err) => {
 			console.error("Socket connection error:", err);
+			// The server refused the session token, so carry on as a guest
+			if (session && !newSocket.active) {
+				console.warn("Session rejected by server. Continuing as a guest.");
+				get().setSession(null);
+				get().connect(getOrSetUserId());
+				set({ error: err.message });
+				return;
+			}
 			set({
 				socket: null,
 				isConnected: false,
@@ -158,9 +271,21 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 			// Don't clear battle state here, let the battle_end event handle it
 		});
 
+		newSocket.on("server:team_invalid", (data) => {
+			console.warn("Team rejected by server:", data.problems);
+			set({ teamProblems: data.problems });
+		});
+
 		// Global event handlers
 		newSocket.on("server:identified", (data) => {
 			console.log("Server identified client:", data);
+			if (data.resumeToken) {
+				localStorage.setItem(
+					`${RESUME_TOKEN_STORAGE_KEY_PREFIX}${data.userId}`,
+					data.resumeToken,
+				);
+			}
+			set({ displayName: data.displayName });
 		});
 
 		newSocket.on("server:error", (data) => {
@@ -189,12 +314,34 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 		const { socket, userId } = get();
 		if (socket && userId && socket.connected) {
 			console.log(`Sending client:identify with userId: ${userId}`);
-			socket.emit("client:identify", { userId });
+			socket.emit("client:identify", {
+				userId,
+				resumeToken: getStoredResumeToken(userId),
+			});
 		} else {
 			console.warn("Cannot identify: Socket not connected or userId not set.");
 		}
 	},
 
+	setSession: (session) => {
+		if (session) {
+			localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+		} else {
+			localStorage.removeItem(SESSION_STORAGE_KEY);
+		}
+		set({ session });
+	},
+
+	register: (username, password) =>
+		authenticate("register", username, password),
+
+	login: (username, password) => authenticate("login", username, password),
+
+	logout: () => {
+		get().setSession(null);
+		get().connect(getOrSetUserId());
+	},
+
 	emit: (event, ...args) => {
 		const { socket } = get();
 		if (socket?.connected) {
@@ -206,23 +353,42 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 		}
 	},
 
+	setTeamPaste: (teamPaste: string) => {
+		set({ teamPaste, teamProblems: null });
+	},
+
 	// Battle-specific actions
-	createBattle: (format: string) => {
-		const { userId } = get();
+	createBattle: (
+		format: string,
+		opponent: "human" | "ai" = "human",
+		difficulty?: BotDifficulty,
+	) => {
+		const { userId, teamPaste } = get();
 		if (!userId) {
 			set({ error: "Cannot create battle: User ID not set." });
 			return;
 		}
-		get().emit("client:create_battle", { format, userId });
+		get().emit("client:create_battle", {
+			format,
+			userId,
+			team: teamPaste.trim() || undefined,
+			opponent,
+			difficulty,
+		});
 	},
 
 	joinBattle: (battleId: string) => {
-		const { userId } = get();
+		const { userId, teamPaste } = get();
 		if (!userId) {
 			set({ error: "Cannot join battle: User ID not set." });
 			return;
 		}
-		get().emit("client:join_battle", { battleId, userId });
+		get().emit("client:join_battle", {
+			battleId,
+			userId,
+			team: teamPaste.trim() || undefined,
+			resumeToken: getStoredResumeToken(userId),
+		});
 	},
 
 	leaveBattle: () => {
@@ -243,7 +409,54 @@ export const useSocketStore = create<SocketState>((set, get) => ({
 	},
 }));
 
-// Helper function (client-side only)
+/**
+ * Registers or logs in, then reconnects as the signed-in account
+ * @returns An error message, or null on success
+ */
+async function authenticate(
+	action: "register" | "login",
+	username: string,
+	password: string,
+): Promise<string | null> {
+	try {
+		const response = await fetch(`${HTTP_SERVER_URL}/auth/${action}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ username, password }),
+		});
+		const data = await response.json();
+		if (!response.ok) return data.error ?? "Something went wrong.";
+
+		const session = data as AuthSession;
+		const { setSession, connect } = useSocketStore.getState();
+		setSession(session);
+		connect(session.userId);
+		return null;
+	} catch (e) {
+		console.error(`Error calling auth/${action}:`, e);
+		return "Could not reach the server.";
+	}
+}
+
+// Helper functions (client-side only)
+export function getStoredSession(): AuthSession | null {
+	const storedSession = localStorage.getItem(SESSION_STORAGE_KEY);
+	if (!storedSession) return null;
+	try {
+		return JSON.parse(storedSession) as AuthSession;
+	} catch {
+		localStorage.removeItem(SESSION_STORAGE_KEY);
+		return null;
+	}
+}
+
+export function getStoredResumeToken(userId: string): string | undefined {
+	return (
+		localStorage.getItem(`${RESUME_TOKEN_STORAGE_KEY_PREFIX}${userId}`) ??
+		undefined
+	);
+}
+
 export function getOrSetUserId(): string {
 	if (typeof window === "undefined") {
 		// Should not happen if called correctly, but safeguard
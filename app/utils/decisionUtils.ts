@@ -0,0 +1,229 @@
+import type { Battle } from "@pkmn/client";
+import type { PlayerRequest, SlotDecision } from "@/lib/battle-types";
+
+type RequestPokemon = PlayerRequest["side"]["pokemon"][number];
+
+/**
+ * A possible target for a move in a multi-battle
+ */
+export interface MoveTargetOption {
+	targetIndex: number; // Positive for foes, negative for allies (Showdown convention)
+	label: string;
+	isAlly: boolean;
+}
+
+// Move targets that require the player to pick a slot when more than one Pokémon is active
+const TARGETED_MOVES = new Set([
+	"normal",
+	"any",
+	"adjacentAlly",
+	"adjacentAllyOrSelf",
+	"adjacentFoe",
+]);
+
+/**
+ * Whether a Pokémon from a request has fainted
+ */
+export function isFainted(pokemon: RequestPokemon | undefined): boolean {
+	return !pokemon || pokemon.condition.endsWith(" fnt");
+}
+
+/**
+ * Get the number of active slots a request asks decisions for
+ */
+export function getSlotCount(request: PlayerRequest | null): number {
+	if (!request || request.wait) return 0;
+	return request.forceSwitch?.length ?? request.active?.length ?? 0;
+}
+
+/**
+ * Get the order to send the team out in at team preview: the picked Pokémon first,
+ * then the rest in team order, up to as many as are brought to the battle
+ */
+export function getTeamPreviewOrder(
+	request: PlayerRequest,
+	picked: number[],
+): number[] {
+	const rest = request.side.pokemon
+		.map((_, index) => index + 1)
+		.filter((position) => !picked.includes(position));
+	return [...picked, ...rest].slice(
+		0,
+		request.maxChosenTeamSize ?? request.side.pokemon.length,
+	);
+}
+
+/**
+ * Get the 1-based team indices a slot may switch to, given choices made for earlier slots
+ */
+export function getSwitchOptions(
+	request: PlayerRequest,
+	pending: SlotDecision[],
+): number[] {
+	const taken = new Set(
+		pending.flatMap((choice) =>
+			choice.type === "switch" ? [choice.pokemonIndex] : [],
+		),
+	);
+
+	return request.side.pokemon.flatMap((pokemon, index) =>
+		!pokemon.active && !isFainted(pokemon) && !taken.has(index + 1)
+			? [index + 1]
+			: [],
+	);
+}
+
+/**
+ * Whether a slot needs input from the player, or can simply pass
+ */
+export function slotNeedsAction(
+	request: PlayerRequest,
+	slot: number,
+	pending: SlotDecision[],
+): boolean {
+	if (request.forceSwitch) {
+		return (
+			request.forceSwitch[slot] === true &&
+			getSwitchOptions(request, pending).length > 0
+		);
+	}
+
+	const pokemon = request.side.pokemon[slot];
+	return !!request.active?.[slot] && !isFainted(pokemon);
+}
+
+/**
+ * Fill in "pass" for every upcoming slot that doesn't need input
+ */
+export function fillPassSlots(
+	request: PlayerRequest,
+	pending: SlotDecision[],
+): SlotDecision[] {
+	const filled = [...pending];
+	const slotCount = getSlotCount(request);
+
+	while (
+		filled.length < slotCount &&
+		!slotNeedsAction(request, filled.length, filled)
+	) {
+		filled.push({ type: "pass" });
+	}
+
+	return filled;
+}
+
+/**
+ * Get the targets a move used from a slot may pick. Returns an empty list when no target is needed.
+ */
+export function getMoveTargets(
+	battle: Battle,
+	player: "p1" | "p2",
+	slot: number,
+	moveTarget: string,
+): MoveTargetOption[] {
+	const side = battle[player];
+	const foeSide = battle[player === "p1" ? "p2" : "p1"];
+	const activeCount = side.active.length;
+
+	if (activeCount <= 1 || !TARGETED_MOVES.has(moveTarget)) return [];
+
+	// In triples only neighbouring slots are adjacent; foe slots are mirrored
+	const isAdjacentFoe = (foeSlot: number) =>
+		Math.abs(activeCount - 1 - foeSlot - slot) <= 1;
+	const isAdjacentAlly = (allySlot: number) => Math.abs(allySlot - slot) === 1;
+
+	const options: MoveTargetOption[] = [];
+
+	if (["normal", "any", "adjacentFoe"].includes(moveTarget)) {
+		foeSide.active.forEach((pokemon, foeSlot) => {
+			if (moveTarget !== "any" && !isAdjacentFoe(foeSlot)) return;
+			options.push({
+				targetIndex: foeSlot + 1,
+				label: pokemon?.name ?? `Foe ${foeSlot + 1}`,
+				isAlly: false,
+			});
+		});
+	}
+
+	if (moveTarget !== "adjacentFoe") {
+		side.active.forEach((pokemon, allySlot) => {
+			const isSelf = allySlot === slot;
+			if (isSelf && moveTarget !== "adjacentAllyOrSelf") return;
+			if (!isSelf && moveTarget !== "any" && !isAdjacentAlly(allySlot)) return;
+			options.push({
+				targetIndex: -(allySlot + 1),
+				label: pokemon?.name ?? `Ally ${allySlot + 1}`,
+				isAlly: true,
+			});
+		});
+	}
+
+	return options;
+}
+
+/**
+ * Generation gimmicks a move decision can activate
+ */
+export type Gimmick = "mega" | "zmove" | "dynamax" | "terastallize";
+
+type ActiveRequest = NonNullable<PlayerRequest["active"]>[number];
+
+/**
+ * Get the gimmicks a slot may use, excluding any already used by an earlier slot this turn
+ */
+export function getAvailableGimmicks(
+	slotRequest: ActiveRequest | undefined,
+	pending: SlotDecision[],
+): Array<{ gimmick: Gimmick; label: string }> {
+	if (!slotRequest) return [];
+
+	const used = new Set(
+		pending.flatMap((choice) =>
+			choice.type === "move"
+				? (["mega", "zmove", "dynamax", "terastallize"] as const).filter(
+						(gimmick) => choice[gimmick],
+					)
+				: [],
+		),
+	);
+
+	const gimmicks: Array<{ gimmick: Gimmick; label: string }> = [];
+	if (slotRequest.canMegaEvo) {
+		gimmicks.push({ gimmick: "mega", label: "Mega Evolve" });
+	}
+	if (slotRequest.canZMove?.some(Boolean)) {
+		gimmicks.push({ gimmick: "zmove", label: "Z-Move" });
+	}
+	if (slotRequest.canDynamax) {
+		gimmicks.push({
+			gimmick: "dynamax",
+			label: slotRequest.maxMoves?.gigantamax ? "Gigantamax" : "Dynamax",
+		});
+	}
+	if (slotRequest.canTerastallize) {
+		gimmicks.push({
+			gimmick: "terastallize",
+			label: `Terastallize (${slotRequest.canTerastallize})`,
+		});
+	}
+
+	return gimmicks.filter(({ gimmick }) => !used.has(gimmick));
+}
+
+/**
+ * Get the target type of a move, accounting for Z-Moves and Max Moves replacing it
+ */
+export function getSlotMoveTarget(
+	slotRequest: ActiveRequest | undefined,
+	moveIndex: number,
+	gimmick: Gimmick | null,
+): string {
+	const index = moveIndex - 1;
+	if (gimmick === "zmove") {
+		return slotRequest?.canZMove?.[index]?.target ?? "normal";
+	}
+	if (gimmick === "dynamax") {
+		return slotRequest?.maxMoves?.maxMoves[index]?.target ?? "normal";
+	}
+	return slotRequest?.moves[index]?.target ?? "normal";
+}
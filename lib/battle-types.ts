@@ -34,6 +34,11 @@ export interface BattleState {
 
 export type PlayerId = "p1" | "p2";
 
+/**
+ * Type for how strongly the built-in AI plays
+ */
+export type BotDifficulty = "easy" | "normal" | "hard";
+
 /**
  * Interface for player request from the battle stream
  */
@@ -49,6 +54,14 @@ export interface PlayerRequest {
 		trapped?: boolean;
 		maybeTrapped?: boolean;
 		canSwitch?: boolean | number[];
+		canMegaEvo?: boolean;
+		canZMove?: Array<{ move: string; target: string } | null>;
+		canDynamax?: boolean;
+		maxMoves?: {
+			maxMoves: Array<{ move: string; target: string; disabled?: boolean }>;
+			gigantamax?: string;
+		};
+		canTerastallize?: string;
 	}[];
 	side: {
 		name: string;
@@ -71,10 +84,15 @@ export interface PlayerRequest {
 			pokeball: string;
 			ability: string;
 			reviving?: boolean;
+			teraType?: string;
+			terastallized?: string;
 			fainted?: boolean;
 		}>;
 	};
 	forceSwitch?: boolean[];
+	teamPreview?: boolean;
+	// How many Pokémon are brought to the battle at team preview, if not the whole team
+	maxChosenTeamSize?: number;
 	wait?: boolean;
 	rqid?: number;
 }
@@ -85,6 +103,12 @@ export interface PlayerRequest {
 export interface MoveDecision {
 	type: "move";
 	moveIndex: number;
+	targetIndex?: number; // For moves that require a target
+	// Generation gimmicks, at most one per decision
+	mega?: boolean;
+	zmove?: boolean;
+	dynamax?: boolean;
+	terastallize?: boolean;
 }
 
 /**
@@ -96,9 +120,62 @@ export interface SwitchDecision {
 }
 
 /**
- * Union type for player decisions
+ * Interface for a slot that has nothing to do this turn (e.g. fainted with no replacement)
+ */
+export interface PassDecision {
+	type: "pass";
+}
+
+/**
+ * Interface for choosing the order the team is sent out in at team preview, leads first
+ */
+export interface TeamDecision {
+	type: "team";
+	// 1-based team indices; Pokémon left out follow in team order
+	order: number[];
+}
+
+/**
+ * Union type for the decision made for a single active slot, or for the whole team at team preview
  */
-export type PlayerDecision = MoveDecision | SwitchDecision;
+export type SlotDecision =
+	| MoveDecision
+	| SwitchDecision
+	| PassDecision
+	| TeamDecision;
+
+/**
+ * Interface for a player's full decision, with one entry per active slot
+ */
+export interface PlayerDecision {
+	choices: SlotDecision[];
+	// ID of the request this decision answers
+	rqid?: number;
+}
+
+/**
+ * Type for the part of a set a team validation problem refers to
+ */
+export type TeamProblemField =
+	| "species"
+	| "ability"
+	| "item"
+	| "moves"
+	| "nature"
+	| "evs"
+	| "ivs"
+	| "level"
+	| "team";
+
+/**
+ * Interface for a single team validation problem
+ */
+export interface TeamProblem {
+	pokemonIndex: number | null; // 0-based index into the team, null for team-wide problems
+	species?: string;
+	field: TeamProblemField;
+	message: string;
+}
 
 /**
  * Interface for battle turn result
@@ -131,3 +208,58 @@ export interface PlayerRequestEvent {
 	player: "p1" | "p2";
 	request: PlayerRequest;
 }
+
+/**
+ * Interface for a finished battle's replay, as served by the battle server
+ */
+export interface BattleReplay {
+	id: string;
+	format: string;
+	formatName: string;
+	p1Name: string;
+	p2Name: string;
+	winner: string | null;
+	createdAt: string;
+	// The full protocol log, with hidden information behind |split| markers
+	log: string[];
+}
+
+/**
+ * Interface for a battle listed in the lobby
+ */
+export interface LobbyBattle {
+	id: string;
+	format: string;
+	formatName: string;
+	p1Name: string;
+	p2Name: string | null;
+	createdAt: string;
+}
+
+/**
+ * Interface for the lobby: battles open to join and battles that can be watched
+ */
+export interface Lobby {
+	waiting: LobbyBattle[];
+	active: LobbyBattle[];
+}
+
+/**
+ * Interface for a signed-in account's session, as returned by the server's auth routes
+ */
+export interface AuthSession {
+	token: string;
+	userId: string;
+	displayName: string;
+}
+
+/**
+ * Interface for a player's battle timer, as sent by the server
+ */
+export interface TurnTimerView {
+	// Time left for the current decision while running, otherwise the time left in the bank
+	remainingMs: number;
+	running: boolean;
+	// When the client received this update, to count down from
+	receivedAt: number;
+}
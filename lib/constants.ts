@@ -13,10 +13,20 @@ const SPRITES: { [gen in GenerationNum]: GraphicsGen } = {
 	9: "ani",
 };
 
-export const generation = 4;
+export const DEFAULT_FORMAT = "gen4randombattle";
 
-export const getFormat = (generation: GenerationNum) =>
-	`gen${generation}randombattle`;
+// HTTP address of the battle server, for its REST routes. Defaults to the WebSocket server's address
+export const SERVER_URL =
+	process.env.NEXT_PUBLIC_SERVER_URL ||
+	(process.env.NEXT_PUBLIC_WEBSOCKET_URL || "ws://localhost:8080").replace(
+		/^ws/,
+		"http",
+	);
+
+export const getGenerationFromFormat = (format: string): GenerationNum => {
+	const gen = Number(format.match(/^gen(\d)/)?.[1]);
+	return (gen >= 1 && gen <= 9 ? gen : 9) as GenerationNum;
+};
 export const getGraphics = (generation: GenerationNum) => SPRITES[generation];
 
 // Type color mapping
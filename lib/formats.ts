@@ -0,0 +1,49 @@
+import { Dex } from "@pkmn/sim";
+import type { GenerationNum } from "@pkmn/types";
+
+/**
+ * Interface for a format that can be picked when creating a battle
+ */
+export interface FormatOption {
+	id: string;
+	name: string;
+	gen: GenerationNum;
+	gameType: "singles" | "doubles" | "triples";
+	requiresTeam: boolean;
+}
+
+const SUPPORTED_GAME_TYPES = new Set(["singles", "doubles", "triples"]);
+
+let formatOptionsCache: FormatOption[] | null = null;
+
+/**
+ * Get the two-player formats known to the simulator, newest generation first
+ */
+export function getFormatOptions(): FormatOption[] {
+	if (!formatOptionsCache) {
+		formatOptionsCache = Dex.formats
+			.all()
+			.filter(
+				(format) =>
+					format.effectType === "Format" &&
+					format.challengeShow !== false &&
+					SUPPORTED_GAME_TYPES.has(format.gameType),
+			)
+			.map((format) => ({
+				id: format.id,
+				name: format.name,
+				gen: (format.gen || 9) as GenerationNum,
+				gameType: format.gameType as FormatOption["gameType"],
+				requiresTeam: !format.team,
+			}))
+			.sort((a, b) => b.gen - a.gen);
+	}
+	return formatOptionsCache;
+}
+
+/**
+ * Get a format option by ID
+ */
+export function getFormatOption(formatId: string): FormatOption | undefined {
+	return getFormatOptions().find((format) => format.id === formatId);
+}
@@ -0,0 +1,109 @@
+/**
+ * Glicko-2 rating system, as described in http://www.glicko.net/glicko/glicko2.pdf
+ */
+
+export interface Glicko2Rating {
+	rating: number;
+	deviation: number;
+	volatility: number;
+}
+
+// Rating given to players before their first rated game
+export const INITIAL_GLICKO2_RATING: Glicko2Rating = {
+	rating: 1500,
+	deviation: 350,
+	volatility: 0.06,
+};
+
+// Constrains how much volatility can change between games
+const TAU = 0.5;
+// Converts between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+/**
+ * Weighting that reduces an opponent's impact the less certain their rating is
+ */
+function g(phi: number): number {
+	return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/**
+ * Works out a player's new volatility with the Illinois algorithm
+ */
+function getNewVolatility(
+	phi: number,
+	sigma: number,
+	delta: number,
+	v: number,
+): number {
+	const a = Math.log(sigma * sigma);
+	const f = (x: number) => {
+		const ex = Math.exp(x);
+		return (
+			(ex * (delta * delta - phi * phi - v - ex)) /
+				(2 * (phi * phi + v + ex) ** 2) -
+			(x - a) / (TAU * TAU)
+		);
+	};
+
+	let A = a;
+	let B: number;
+	if (delta * delta > phi * phi + v) {
+		B = Math.log(delta * delta - phi * phi - v);
+	} else {
+		let k = 1;
+		while (f(a - k * TAU) < 0) k++;
+		B = a - k * TAU;
+	}
+
+	let fA = f(A);
+	let fB = f(B);
+	while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+		const C = A + ((A - B) * fA) / (fB - fA);
+		const fC = f(C);
+		if (fC * fB <= 0) {
+			A = B;
+			fA = fB;
+		} else {
+			fA /= 2;
+		}
+		B = C;
+		fB = fC;
+	}
+
+	return Math.exp(A / 2);
+}
+
+/**
+ * Rates a player after a single game, treating the game as its own rating period
+ * @param player - The player's rating before the game
+ * @param opponent - The opponent's rating before the game
+ * @param score - 1 for a win, 0.5 for a draw and 0 for a loss
+ * @returns The player's new rating
+ */
+export function rateGame(
+	player: Glicko2Rating,
+	opponent: Glicko2Rating,
+	score: number,
+): Glicko2Rating {
+	const mu = (player.rating - 1500) / SCALE;
+	const phi = player.deviation / SCALE;
+	const opponentMu = (opponent.rating - 1500) / SCALE;
+	const opponentG = g(opponent.deviation / SCALE);
+
+	const expected = 1 / (1 + Math.exp(-opponentG * (mu - opponentMu)));
+	const v = 1 / (opponentG * opponentG * expected * (1 - expected));
+	const delta = v * opponentG * (score - expected);
+
+	const volatility = getNewVolatility(phi, player.volatility, delta, v);
+	const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+	const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / v);
+	const newMu = mu + newPhi * newPhi * opponentG * (score - expected);
+
+	return {
+		rating: SCALE * newMu + 1500,
+		deviation: SCALE * newPhi,
+		volatility,
+	};
+}
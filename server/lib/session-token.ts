@@ -0,0 +1,153 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * What a token vouches for
+ */
+export interface SessionTokenPayload {
+	// "session" for signed-in accounts, "resume" for reclaiming a guest's battle seats
+	kind: TokenKind;
+	// The user ID the token was issued to
+	sub: string;
+	// The user's display name
+	name: string;
+	// Expiry, in milliseconds since the epoch
+	exp: number;
+	// Resume tokens' ID; only the latest token issued for a user ID is honoured
+	jti?: string;
+}
+
+export type TokenKind = "session" | "resume";
+
+// How long a session lasts before the user has to log in again
+export const SESSION_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// How long a guest's resume token lasts without the guest coming back
+export const RESUME_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+let secret: string | undefined;
+
+/**
+ * Gets the key tokens are signed with, generating a temporary one if none is configured
+ */
+function getSecret(): string {
+	if (!secret) {
+		secret = process.env.SESSION_SECRET;
+		if (!secret) {
+			console.warn(
+				"[Auth] SESSION_SECRET is not set. Using a random secret, so sessions end when the server restarts.",
+			);
+			secret = randomBytes(32).toString("hex");
+		}
+	}
+	return secret;
+}
+
+/**
+ * Signs the encoded payload of a token
+ */
+function sign(encodedPayload: string): string {
+	return createHmac("sha256", getSecret())
+		.update(encodedPayload)
+		.digest("base64url");
+}
+
+/**
+ * Signs a payload into a token, in the form `payload.signature`
+ */
+function createToken(payload: SessionTokenPayload): string {
+	const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+		"base64url",
+	);
+	return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Checks a token's signature, kind and expiry
+ * @returns The token's payload, or null if it is invalid or expired
+ */
+function readToken(token: string, kind: TokenKind): SessionTokenPayload | null {
+	const [encodedPayload, signature] = token.split(".");
+	if (!encodedPayload || !signature) return null;
+
+	const expected = Buffer.from(sign(encodedPayload));
+	const actual = Buffer.from(signature);
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+		return null;
+	}
+
+	try {
+		const payload = JSON.parse(
+			Buffer.from(encodedPayload, "base64url").toString(),
+		) as SessionTokenPayload;
+		if (
+			payload.kind !== kind ||
+			typeof payload.sub !== "string" ||
+			payload.exp < Date.now()
+		) {
+			return null;
+		}
+		return payload;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Creates a signed-in account's session token
+ * @param userId - The user ID to issue the token to
+ * @param name - The user's display name
+ * @param ttl - How long the token is valid for, in milliseconds
+ */
+export function createSessionToken(
+	userId: string,
+	name: string,
+	ttl = SESSION_TOKEN_TTL_MS,
+): string {
+	return createToken({
+		kind: "session",
+		sub: userId,
+		name,
+		exp: Date.now() + ttl,
+	});
+}
+
+/**
+ * Checks a session token
+ * @returns The token's payload, or null if it is invalid or expired
+ */
+export function verifySessionToken(token: string): SessionTokenPayload | null {
+	return readToken(token, "session");
+}
+
+/**
+ * Creates a token that lets a guest reclaim their battle seats after reconnecting
+ * @param userId - The guest's user ID
+ * @param tokenId - The token's ID, recorded as the user ID's current token
+ * @param ttl - How long the token is valid for, in milliseconds
+ */
+export function createResumeToken(
+	userId: string,
+	tokenId: string,
+	ttl = RESUME_TOKEN_TTL_MS,
+): string {
+	return createToken({
+		kind: "resume",
+		sub: userId,
+		name: userId,
+		exp: Date.now() + ttl,
+		jti: tokenId,
+	});
+}
+
+/**
+ * Checks that a resume token is signed, unexpired and issued to the given user. Whether it has
+ * since been revoked is up to the caller.
+ * @returns The token's ID, or null if it is invalid
+ */
+export function readResumeTokenId(
+	token: unknown,
+	userId: string,
+): string | null {
+	if (typeof token !== "string") return null;
+	const payload = readToken(token, "resume");
+	return payload?.sub === userId ? (payload.jti ?? null) : null;
+}
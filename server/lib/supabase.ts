@@ -1,16 +1,26 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+let supabase: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseServiceKey) {
-	throw new Error("Missing Supabase environment variables");
-}
+/**
+ * Get the shared Supabase client, creating it on first use
+ */
+export function getSupabase(): SupabaseClient {
+	if (supabase) return supabase;
 
-export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-	auth: {
-		autoRefreshToken: false,
-		persistSession: false,
-		detectSessionInUrl: false,
-	},
-});
\ No newline at end of file
+	const supabaseUrl = process.env.SUPABASE_URL;
+	const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+	if (!supabaseUrl || !supabaseServiceKey) {
+		throw new Error("Missing Supabase environment variables");
+	}
+
+	supabase = createClient(supabaseUrl, supabaseServiceKey, {
+		auth: {
+			autoRefreshToken: false,
+			persistSession: false,
+			detectSessionInUrl: false,
+		},
+	});
+	return supabase;
+}
\ No newline at end of file
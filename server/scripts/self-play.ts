@@ -0,0 +1,226 @@
+import { createHash } from "node:crypto";
+import { parseArgs } from "node:util";
+import { PRNG, type PRNGSeed } from "@pkmn/sim";
+import { BattleEngine } from "../services/battle-engine";
+import type { BotDifficulty, PlayerStrategy } from "../services/battle-types";
+import { getBotStrategy } from "../services/bot-strategies";
+import { formatRequiresTeam, isValidFormat } from "../services/team-validator";
+
+/**
+ * Runs seeded bot-vs-bot games in one process and prints win rates, turn counts and crashes.
+ *
+ * Usage: bun run self-play --games 100 --format gen9randombattle --p1 hard --p2 easy --seed 1
+ */
+
+const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "normal", "hard"];
+
+interface GameResult {
+	winner: "p1" | "p2" | null;
+	turns: number;
+	choiceErrors: number;
+	crash?: string;
+}
+
+/**
+ * Derive a sim PRNG seed from any number of parts
+ * @param parts - The values the seed is derived from
+ */
+function deriveSeed(...parts: Array<string | number>): PRNGSeed {
+	const hash = createHash("sha256").update(parts.join(":")).digest("hex");
+	return `sodium,${hash}`;
+}
+
+/**
+ * Parse a difficulty argument
+ * @param value - The argument value
+ * @param flag - The flag name, for the error message
+ */
+function parseDifficulty(value: string, flag: string): BotDifficulty {
+	if (!BOT_DIFFICULTIES.includes(value as BotDifficulty)) {
+		throw new Error(
+			`--${flag} must be one of ${BOT_DIFFICULTIES.join(", ")}, got "${value}"`,
+		);
+	}
+	return value as BotDifficulty;
+}
+
+/**
+ * Play a single game between two strategies
+ * @param gameId - The game's ID
+ * @param format - The format ID
+ * @param seed - The game's base seed
+ * @param strategies - The strategies playing each side
+ * @param timeoutMs - How long a game may run before it counts as a crash
+ */
+function playGame(
+	gameId: string,
+	format: string,
+	seed: string,
+	strategies: { p1: PlayerStrategy; p2: PlayerStrategy },
+	timeoutMs: number,
+): Promise<GameResult> {
+	return new Promise((resolve) => {
+		const p1Name = `${strategies.p1.name} (p1)`;
+		const p2Name = `${strategies.p2.name} (p2)`;
+		let turns = 0;
+		let choiceErrors = 0;
+		let finished = false;
+
+		const engine = new BattleEngine(gameId, {
+			format,
+			p1Name,
+			p2Name,
+			seed: deriveSeed(seed, "battle"),
+			p1Strategy: strategies.p1,
+			p2Strategy: strategies.p2,
+		});
+
+		const finish = (result: Omit<GameResult, "turns" | "choiceErrors">) => {
+			if (finished) return;
+			finished = true;
+			clearTimeout(timeout);
+			engine.destroy();
+			resolve({ ...result, turns, choiceErrors });
+		};
+
+		const timeout = setTimeout(
+			() => finish({ winner: null, crash: `timed out after turn ${turns}` }),
+			timeoutMs,
+		);
+
+		engine.on("protocol", ({ type, lines }) => {
+			for (const line of lines) {
+				if (type === "omniscient" && line.startsWith("|turn|")) {
+					turns = Number(line.slice(6));
+				} else if (type !== "omniscient" && line.startsWith("|error|")) {
+					choiceErrors++;
+				} else if (line.startsWith("|error|[ProtocolParseError]")) {
+					finish({ winner: null, crash: line.slice(7) });
+				}
+			}
+		});
+
+		engine.on("battleEnd", ({ winningSide }) => {
+			finish({ winner: winningSide });
+		});
+
+		try {
+			engine.startBattle();
+		} catch (error) {
+			finish({
+				winner: null,
+				crash: error instanceof Error ? error.message : String(error),
+			});
+		}
+	});
+}
+
+async function main(): Promise<void> {
+	const { values } = parseArgs({
+		options: {
+			games: { type: "string", short: "n", default: "100" },
+			format: { type: "string", short: "f", default: "gen9randombattle" },
+			p1: { type: "string", default: "hard" },
+			p2: { type: "string", default: "easy" },
+			seed: { type: "string", short: "s", default: "1" },
+			timeout: { type: "string", default: "30000" },
+		},
+	});
+
+	const games = Number(values.games);
+	const format = values.format;
+	const p1Difficulty = parseDifficulty(values.p1, "p1");
+	const p2Difficulty = parseDifficulty(values.p2, "p2");
+	const timeoutMs = Number(values.timeout);
+
+	if (!Number.isInteger(games) || games < 1) {
+		throw new Error(
+			`--games must be a positive integer, got "${values.games}"`,
+		);
+	}
+	if (!isValidFormat(format) || formatRequiresTeam(format)) {
+		throw new Error(`--format must be a random battle format, got "${format}"`);
+	}
+
+	const results: GameResult[] = [];
+	for (let game = 0; game < games; game++) {
+		const seed = `${values.seed}:${game}`;
+		const strategies = {
+			p1: getBotStrategy(p1Difficulty, seededRandom(seed, "p1")),
+			p2: getBotStrategy(p2Difficulty, seededRandom(seed, "p2")),
+		};
+		const result = await playGame(
+			`self-play-${game}`,
+			format,
+			seed,
+			strategies,
+			timeoutMs,
+		);
+		if (result.crash) {
+			console.error(`Game ${game} (seed ${seed}) crashed: ${result.crash}`);
+		}
+		results.push(result);
+	}
+
+	printSummary(results, {
+		format,
+		seed: values.seed,
+		p1: getBotStrategy(p1Difficulty).name,
+		p2: getBotStrategy(p2Difficulty).name,
+	});
+}
+
+/**
+ * Create a seeded source of randomness in [0, 1) for a strategy
+ * @param parts - The values the seed is derived from
+ */
+function seededRandom(...parts: Array<string | number>): () => number {
+	const prng = new PRNG(deriveSeed(...parts));
+	return () => prng.random();
+}
+
+/**
+ * Print win rates, turn counts and crash counts for a run
+ * @param results - The results of every game
+ * @param run - What was played
+ */
+function printSummary(
+	results: GameResult[],
+	run: { format: string; seed: string; p1: string; p2: string },
+): void {
+	const percent = (count: number) =>
+		`${((count / results.length) * 100).toFixed(1)}%`;
+	const completed = results.filter((result) => !result.crash);
+	const p1Wins = completed.filter((result) => result.winner === "p1").length;
+	const p2Wins = completed.filter((result) => result.winner === "p2").length;
+	const ties = completed.length - p1Wins - p2Wins;
+	const turns = completed.map((result) => result.turns);
+	const averageTurns = turns.length
+		? turns.reduce((total, count) => total + count, 0) / turns.length
+		: 0;
+	const choiceErrors = results.reduce(
+		(total, result) => total + result.choiceErrors,
+		0,
+	);
+
+	console.log(
+		`\nFormat: ${run.format}  Games: ${results.length}  Seed: ${run.seed}`,
+	);
+	console.log(`p1 ${run.p1}: ${p1Wins} wins (${percent(p1Wins)})`);
+	console.log(`p2 ${run.p2}: ${p2Wins} wins (${percent(p2Wins)})`);
+	console.log(`Ties: ${ties} (${percent(ties)})`);
+	console.log(
+		`Turns: avg ${averageTurns.toFixed(1)}, min ${turns.length ? Math.min(...turns) : 0}, max ${turns.length ? Math.max(...turns) : 0}`,
+	);
+	console.log(
+		`Crashes: ${results.length - completed.length}  Rejected choices: ${choiceErrors}`,
+	);
+}
+
+main().then(
+	() => process.exit(0),
+	(error) => {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	},
+);
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { PRNG, type PRNGSeed } from "@pkmn/sim";
+import { BattleEngine } from "./battle-engine";
+import type { PlayerId } from "./battle-types";
+import { getBotStrategy } from "./bot-strategies";
+
+// Lines that carry a Pokémon's HP, with the index of the HP field
+const HP_LINES: Record<string, number> = {
+	switch: 4,
+	drag: 4,
+	"-damage": 3,
+	"-heal": 3,
+	"-sethp": 3,
+};
+
+interface PlayedBattle {
+	// The sim's full log, with each side's hidden information behind |split| markers
+	log: string[];
+	perspectives: Record<PlayerId, string[]>;
+}
+
+/**
+ * Plays a seeded bot-vs-bot battle to the end, keeping the lines sent to each perspective
+ */
+function playBattle(seed: PRNGSeed): Promise<PlayedBattle> {
+	const random = new PRNG(seed);
+	const engine = new BattleEngine(`test-${seed}`, {
+		format: "gen9randombattle",
+		p1Name: "Alice",
+		p2Name: "Bob",
+		seed,
+		p1Strategy: getBotStrategy("normal", () => random.random()),
+		p2Strategy: getBotStrategy("normal", () => random.random()),
+	});
+
+	const perspectives: Record<PlayerId, string[]> = { p1: [], p2: [] };
+	engine.on("protocol", ({ type, lines }) => {
+		if (type === "p1" || type === "p2") perspectives[type].push(...lines);
+	});
+
+	return new Promise((resolve) => {
+		engine.on("battleEnd", () => {
+			const log = engine.getProtocolLog();
+			// The players' streams deliver the last of the battle just after the omniscient one
+			setTimeout(() => resolve({ log, perspectives }), 0);
+		});
+		engine.startBattle();
+	});
+}
+
+/**
+ * Gets the lines only a side may see from the sim's log: the first of each
+ * |split| pair, where it differs from the public version that follows it
+ */
+function getSecretLines(log: string[], side: PlayerId): Set<string> {
+	const secrets = new Set<string>();
+	for (const [index, line] of log.entries()) {
+		const secret = log[index + 1];
+		const shared = log[index + 2];
+		if (line === `|split|${side}` && secret !== shared) secrets.add(secret);
+	}
+	return secrets;
+}
+
+/**
+ * Gets the HP shown for a side's Pokémon in each line that carries it
+ */
+function getShownHP(lines: string[], side: PlayerId): string[] {
+	return lines.flatMap((line) => {
+		const parts = line.split("|");
+		const hpIndex = HP_LINES[parts[1]];
+		return hpIndex && parts[2]?.startsWith(side) ? [parts[hpIndex]] : [];
+	});
+}
+
+describe("BattleEngine perspectives", () => {
+	const seed: PRNGSeed =
+		"sodium,00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff";
+	const battle = playBattle(seed);
+
+	for (const [player, opponent] of [
+		["p1", "p2"],
+		["p2", "p1"],
+	] as const) {
+		test(`${player} never receives ${opponent}'s exact HP`, async () => {
+			const { log, perspectives } = await battle;
+			const secrets = getSecretLines(log, opponent);
+			expect(secrets.size).toBeGreaterThan(0);
+
+			for (const line of perspectives[player]) {
+				expect(secrets.has(line)).toBe(false);
+			}
+			const shownHP = getShownHP(perspectives[player], opponent);
+			expect(shownHP.length).toBeGreaterThan(0);
+			for (const hp of shownHP) {
+				expect(hp).toMatch(/^(\d+\/100|0 fnt)( \w+)?$/);
+			}
+		});
+
+		test(`${player} receives their own exact HP`, async () => {
+			const { log, perspectives } = await battle;
+			const secrets = getSecretLines(log, player);
+			const received = new Set(perspectives[player]);
+			for (const secret of secrets) {
+				expect(received.has(secret)).toBe(true);
+			}
+		});
+	}
+});
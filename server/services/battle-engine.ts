@@ -8,6 +8,7 @@ import {
 	Dex,
 	type ModdedDex,
 	PRNG,
+	type PRNGSeed,
 } from "@pkmn/sim";
 import type { ObjectReadWriteStream } from "@pkmn/streams";
 import {
@@ -17,15 +18,26 @@ import {
 import type {
 	BattleOptions,
 	PlayerDecision,
+	PlayerId,
 	PlayerRequest,
+	PlayerStrategy,
+	SlotDecision,
 } from "./battle-types";
+import { BotPlayer } from "./bot-player";
 import { ManualPlayer } from "./player";
 
+// Who a piece of battle output is for; each sees only the hidden information they are allowed to
+export type ProtocolPerspective = "omniscient" | "spectator" | "p1" | "p2";
+
 export interface BattleProtocolEventMap extends Record<string, unknown> {
-	protocol: { type: "omniscient" | "p1" | "p2"; lines: string[] };
+	protocol: { type: ProtocolPerspective; lines: string[] };
 	request: { player: "p1" | "p2"; request: PlayerRequest };
-	battleEnd: { winner: string | null };
+	// The winner's name as shown in the |win| line, and the side that won, or null for a tie
+	battleEnd: { winner: string | null; winningSide: PlayerId | null };
 	battleStart: { battleId: string; initialLines: string[] };
+	// The sim refused a player's choice, and is still waiting for one
+	choiceRejected: { player: PlayerId; message: string };
+	inputLog: { lines: string[] };
 }
 
 /**
@@ -33,10 +45,12 @@ export interface BattleProtocolEventMap extends Record<string, unknown> {
  */
 export class BattleEngine {
 	private battle: Battle;
+	private battleStream: BattleStreams.BattleStream;
 	private streams: ReturnType<typeof BattleStreams.getPlayerStreams>;
 	private p1Stream: ObjectReadWriteStream<string>;
 	private p2Stream: ObjectReadWriteStream<string>;
 	private prng: PRNG;
+	private seed: PRNGSeed;
 	private dex: ModdedDex;
 	private gens: Generations;
 	private format: ID;
@@ -48,42 +62,82 @@ export class BattleEngine {
 	private battleId: string;
 	private debug: boolean;
 	private initialProtocolLines: string[] = [];
+	// Side that forfeited the battle, if it ended that way
+	private forfeitedBy: PlayerId | null = null;
+	// Battle lines sent to each non-omniscient perspective so far, for catching up late joiners
+	private perspectiveLogs: Record<"spectator" | "p1" | "p2", string[]> = {
+		spectator: [],
+		p1: [],
+		p2: [],
+	};
 	private battleStarted = false;
+	private inputLogLength = 0;
+	private destroyed = false;
 
 	constructor(battleId: string, options: BattleOptions) {
 		this.battleId = battleId;
 		this.format = (options.format as ID) || ("gen3randombattle" as ID);
 		this.debug = options.debug ?? false;
-		this.prng = new PRNG();
+		this.seed = options.seed ?? PRNG.generateSeed();
+		this.prng = new PRNG(this.seed);
 		this.dex = Dex.forFormat(this.format);
 		// @ts-ignore
 		this.gens = new Generations(Dex);
 		this.eventEmitter = new BattleEventEmitter<BattleProtocolEventMap>();
 
 		DTeams.setGeneratorFactory(TeamGenerators);
-		this.streams = BattleStreams.getPlayerStreams(
-			new BattleStreams.BattleStream({ debug: this.debug }),
-		);
+		this.battleStream = new BattleStreams.BattleStream({ debug: this.debug });
+		this.streams = BattleStreams.getPlayerStreams(this.battleStream);
 		this.p1Stream = this.streams.p1;
 		this.p2Stream = this.streams.p2;
 		this.battle = new Battle({ formatid: this.format });
 
-		this.p1 = new ManualPlayer(
+		this.p1 = this.createPlayer(
+			"p1",
 			this.p1Stream,
-			this.debug,
 			options.p1Name,
-			(request: PlayerRequest) => this.handlePlayerRequest("p1", request),
-			(lines: string[]) => this.handlePlayerProtocol("p1", lines),
+			options.p1Strategy,
 		);
-		this.p2 = new ManualPlayer(
+		this.p2 = this.createPlayer(
+			"p2",
 			this.p2Stream,
-			this.debug,
 			options.p2Name,
-			(request: PlayerRequest) => this.handlePlayerRequest("p2", request),
-			(lines: string[]) => this.handlePlayerProtocol("p2", lines),
+			options.p2Strategy,
 		);
 
 		void this.startOmniscientStream();
+		void this.startSpectatorStream();
+	}
+
+	/**
+	 * Create the player for a side, controlled by a strategy if one is given
+	 * @param player - The side
+	 * @param stream - The side's player stream
+	 * @param name - The player's name
+	 * @param strategy - The strategy that plays this side, if it is a bot
+	 */
+	private createPlayer(
+		player: "p1" | "p2",
+		stream: ObjectReadWriteStream<string>,
+		name: string,
+		strategy?: PlayerStrategy,
+	): ManualPlayer {
+		const onRequest = (request: PlayerRequest) =>
+			this.handlePlayerRequest(player, request);
+		const onProtocol = (lines: string[]) =>
+			this.handlePlayerProtocol(player, lines);
+
+		return strategy
+			? new BotPlayer(
+					stream,
+					strategy,
+					this.debug,
+					name,
+					onRequest,
+					onProtocol,
+					() => this.hasChosen(player),
+				)
+			: new ManualPlayer(stream, this.debug, name, onRequest, onProtocol);
 	}
 
 	private async startOmniscientStream(): Promise<void> {
@@ -124,14 +178,26 @@ export class BattleEngine {
 
 				this.eventEmitter.emit("protocol", { type: "omniscient", lines });
 
-				if (this.battle.ended) {
+				const inputLog = this.getInputLog();
+				if (inputLog.length > this.inputLogLength) {
+					this.inputLogLength = inputLog.length;
+					this.eventEmitter.emit("inputLog", { lines: inputLog });
+				}
+
+				// The sim Battle only logs the lines added to it, so detect the end from the protocol
+				const endLine = lines.find(
+					(line) => line.startsWith("|win|") || line === "|tie",
+				);
+				if (endLine) {
+					const winner = endLine.startsWith("|win|") ? endLine.slice(5) : null;
 					if (this.debug) {
 						console.log(
-							`[BattleEngine ${this.battleId}] Battle ended internally. Winner: ${this.battle.winner}`,
+							`[BattleEngine ${this.battleId}] Battle ended internally. Winner: ${winner}`,
 						);
 					}
 					this.eventEmitter.emit("battleEnd", {
-						winner: this.battle.winner || null,
+						winner,
+						winningSide: this.getWinningSide(winner),
 					});
 					break;
 				}
@@ -148,14 +214,56 @@ export class BattleEngine {
 			);
 			this.eventEmitter.emit("battleEnd", {
 				winner: null,
+				winningSide: null,
 			});
 		} finally {
+			// The player and spectator streams get the battle's last chunk after this one;
+			// wait a tick so it is forwarded before the listeners are removed
+			await new Promise((resolve) => setTimeout(resolve, 0));
 			this.destroy();
 		}
 	}
 
+	/**
+	 * Forward the public view of the battle, which has no side's hidden information
+	 */
+	private async startSpectatorStream(): Promise<void> {
+		try {
+			for await (const chunk of this.streams.spectator) {
+				const lines = chunk.split("\n").filter((line) => line.length > 0);
+				if (lines.length === 0) continue;
+
+				this.perspectiveLogs.spectator.push(...lines);
+				this.eventEmitter.emit("protocol", { type: "spectator", lines });
+			}
+		} catch (error) {
+			console.error(
+				`[BattleEngine ${this.battleId}] Spectator stream error:`,
+				error,
+			);
+		}
+	}
+
 	private handlePlayerProtocol(player: "p1" | "p2", lines: string[]): void {
+		// Requests and errors only matter at the moment they are sent
+		this.perspectiveLogs[player].push(
+			...lines.filter(
+				(line) => !line.startsWith("|request|") && !line.startsWith("|error|"),
+			),
+		);
 		this.eventEmitter.emit("protocol", { type: player, lines });
+
+		for (const line of lines) {
+			if (
+				line.startsWith("|error|[Invalid choice]") ||
+				line.startsWith("|error|[Unavailable choice]")
+			) {
+				this.eventEmitter.emit("choiceRejected", {
+					player,
+					message: line.substring(7),
+				});
+			}
+		}
 	}
 
 	private handlePlayerRequest(
@@ -169,7 +277,7 @@ export class BattleEngine {
 	}
 
 	startBattle(p1Team?: string, p2Team?: string): void {
-		const spec = { formatid: this.format };
+		const spec = { formatid: this.format, seed: this.seed };
 
 		const createTeam = () => {
 			try {
@@ -206,18 +314,26 @@ export class BattleEngine {
 		this.eventEmitter.emit("battleStart", { battleId: this.battleId, initialLines: this.initialProtocolLines });
 	}
 
+	/**
+	 * Rebuild the battle by replaying a recorded sim input log
+	 * @param inputLog - The input log, starting with the >start and >player lines
+	 */
+	async restoreBattle(inputLog: string[]): Promise<void> {
+		// The replayed part of the log is already recorded
+		this.inputLogLength = inputLog.length;
+		void this.streams.omniscient.write(inputLog.join("\n"));
+
+		// The sim handles the whole log at once; wait a tick for the streams to deliver its output
+		await new Promise((resolve) => setTimeout(resolve, 0));
+	}
+
 	processPlayerDecision(player: "p1" | "p2", decision: PlayerDecision): void {
 		const playerStream = player === "p1" ? this.p1Stream : this.p2Stream;
-		let choice = "";
-
-		if (decision.type === "move") choice = `move ${decision.moveIndex}`;
-		else if (decision.type === "switch")
-			choice = `switch ${decision.pokemonIndex}`;
+		const choice = (decision.choices ?? [])
+			.map((slot) => this.getSlotChoice(slot))
+			.join(", ");
 
 		if (choice) {
-			if (player === "p1") this.p1Request = null;
-			else this.p2Request = null;
-
 			try {
 				void playerStream.write(choice);
 			} catch (error) {
@@ -239,6 +355,65 @@ export class BattleEngine {
 		}
 	}
 
+	/**
+	 * End the battle with a player losing, e.g. when they run out of time
+	 * @param player - The side that forfeits
+	 */
+	forfeit(player: "p1" | "p2"): void {
+		this.forfeitedBy = player;
+		void this.streams.omniscient.write(`>forcelose ${player}`);
+	}
+
+	/**
+	 * Work out which side won from the sim's sides rather than the winner's name,
+	 * since both players can go by the same name
+	 * @param winner - The winner's name from the |win| line, or null for a tie
+	 */
+	private getWinningSide(winner: string | null): PlayerId | null {
+		const sides = this.battleStream.battle?.sides ?? [];
+		if (!winner) return null;
+
+		// A forfeit ends the battle with Pokémon left on both sides; otherwise the loser has none
+		const winningSides = sides.filter(
+			(side) =>
+				side.name === winner &&
+				(this.forfeitedBy
+					? side.id !== this.forfeitedBy
+					: side.pokemonLeft > 0),
+		);
+		return winningSides.length === 1
+			? (winningSides[0].id as PlayerId)
+			: null;
+	}
+
+	/**
+	 * Build the sim choice string for a single active slot
+	 * @param slot - The slot decision
+	 */
+	private getSlotChoice(slot: SlotDecision): string {
+		switch (slot.type) {
+			case "move": {
+				const parts = [`move ${slot.moveIndex}`];
+				if (slot.targetIndex) parts.push(String(slot.targetIndex));
+				if (slot.mega) parts.push("mega");
+				else if (slot.zmove) parts.push("zmove");
+				else if (slot.dynamax) parts.push("dynamax");
+				else if (slot.terastallize) parts.push("terastallize");
+				return parts.join(" ");
+			}
+			case "switch":
+				return `switch ${slot.pokemonIndex}`;
+			case "pass":
+				return "pass";
+			case "default":
+				return "default";
+			case "team":
+				return `team ${slot.order.join(",")}`;
+			default:
+				return "";
+		}
+	}
+
 	on<K extends keyof BattleProtocolEventMap>(
 		event: K,
 		listener: (data: BattleProtocolEventMap[K]) => void,
@@ -246,6 +421,23 @@ export class BattleEngine {
 		return this.eventEmitter.on(event, listener);
 	}
 
+	getSeed(): PRNGSeed {
+		return this.seed;
+	}
+
+	/**
+	 * Whether the sim already has a side's choice for its current request, e.g. from a replayed
+	 * input log. Sides with nothing to choose count as having chosen.
+	 */
+	hasChosen(player: PlayerId): boolean {
+		const side = this.battleStream.battle?.sides.find(
+			(candidate) => candidate?.id === player,
+		);
+		if (!side?.requestState) return true;
+		// A refused choice can leave some actions behind
+		return !side.choice.error && side.isChoiceDone();
+	}
+
 	getP1Request(): Readonly<PlayerRequest> | null {
 		return this.p1Request;
 	}
@@ -260,28 +452,45 @@ export class BattleEngine {
 	}
 
 	destroy(): void {
+		if (this.destroyed) return;
+		this.destroyed = true;
 		if (this.debug) {
 			console.log(`[BattleEngine ${this.battleId}] Destroying battle...`);
 		}
+		// Ending the battle stream ends the player streams once the sim has flushed its output;
+		// destroying them directly makes the sim throw when it pushes its final chunk
 		try {
-			this.streams.omniscient.destroy();
-		} catch (e) {
-			/* ignore */
-		}
-		try {
-			this.streams.p1.destroy();
-		} catch (e) {
-			/* ignore */
-		}
-		try {
-			this.streams.p2.destroy();
+			void this.battleStream.writeEnd();
 		} catch (e) {
 			/* ignore */
 		}
 		this.eventEmitter.removeAllListeners();
 	}
 
+	/**
+	 * Get the sim input log: the >start and >player lines followed by every committed choice
+	 */
+	getInputLog(): string[] {
+		return [...(this.battleStream.battle?.inputLog ?? [])];
+	}
+
 	getInitialProtocolLines(): string[] {
 		return [...this.initialProtocolLines];
 	}
+
+	/**
+	 * Get the battle lines a player or spectator has been sent so far, without requests or errors
+	 * @param perspective - Whose view of the battle to get
+	 */
+	getPerspectiveLog(perspective: "spectator" | "p1" | "p2"): string[] {
+		return [...this.perspectiveLogs[perspective]];
+	}
+
+	/**
+	 * Get the sim's full protocol log so far. Hidden information is kept behind |split| markers,
+	 * so each player's view and the omniscient view can be extracted from it
+	 */
+	getProtocolLog(): string[] {
+		return [...(this.battleStream.battle?.log ?? [])];
+	}
 }
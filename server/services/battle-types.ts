@@ -1,5 +1,6 @@
-import type { Pokemon, Battle, ID } from "@pkmn/sim";
+import type { Pokemon, Battle, ID, PRNGSeed } from "@pkmn/sim";
 import type { Args } from "@pkmn/protocol";
+import type { Battle as ClientBattle } from "@pkmn/client";
 
 /**
  * Interface for move data in a request
@@ -22,9 +23,32 @@ export interface BattleOptions {
 	p2Name: string;
 	p1Team?: string;
 	p2Team?: string;
+	seed?: PRNGSeed; // Seeds team generation and the battle itself, generated if omitted
+	// Let a bot play a side instead of a human
+	p1Strategy?: PlayerStrategy;
+	p2Strategy?: PlayerStrategy;
 	debug?: boolean;
 }
 
+/**
+ * Type for how strongly the built-in AI plays
+ */
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+/**
+ * Interface for a bot that makes a player's decisions
+ */
+export interface PlayerStrategy {
+	name: string;
+	/**
+	 * Choose what to do for a request
+	 * @param request - The request from the battle stream
+	 * @param battle - The battle as seen from this player's side
+	 * @returns The sim choice string
+	 */
+	choose(request: PlayerRequest, battle: ClientBattle): string;
+}
+
 /**
  * Interface for player state in battle
  */
@@ -62,6 +86,14 @@ export interface PlayerRequest {
 		trapped?: boolean;
 		maybeTrapped?: boolean;
 		canSwitch?: boolean | number[];
+		canMegaEvo?: boolean;
+		canZMove?: Array<{ move: string; target: string } | null>;
+		canDynamax?: boolean;
+		maxMoves?: {
+			maxMoves: Array<{ move: string; target: string; disabled?: boolean }>;
+			gigantamax?: string;
+		};
+		canTerastallize?: string;
 	}>;
 	side: {
 		name: string;
@@ -84,10 +116,15 @@ export interface PlayerRequest {
 			pokeball: string;
 			ability: ID;
 			reviving?: boolean;
+			teraType?: string;
+			terastallized?: string;
 			fainted?: boolean;
 		}>;
 	};
 	forceSwitch?: boolean[];
+	teamPreview?: boolean;
+	// How many Pokémon are brought to the battle at team preview, if not the whole team
+	maxChosenTeamSize?: number;
 	wait?: boolean;
 	rqid?: number;
 }
@@ -99,6 +136,11 @@ export interface MoveDecision {
 	type: "move";
 	moveIndex: number;
 	targetIndex?: number; // For moves that require a target
+	// Generation gimmicks, at most one per decision
+	mega?: boolean;
+	zmove?: boolean;
+	dynamax?: boolean;
+	terastallize?: boolean;
 }
 
 /**
@@ -110,9 +152,70 @@ export interface SwitchDecision {
 }
 
 /**
- * Union type for player decisions
+ * Interface for a slot that has nothing to do this turn (e.g. fainted with no replacement)
+ */
+export interface PassDecision {
+	type: "pass";
+}
+
+/**
+ * Interface for letting the simulator choose a side's actions, as when a player runs out of time
+ */
+export interface DefaultDecision {
+	type: "default";
+}
+
+/**
+ * Interface for choosing the order the team is sent out in at team preview, leads first
  */
-export type PlayerDecision = MoveDecision | SwitchDecision;
+export interface TeamDecision {
+	type: "team";
+	// 1-based team indices; Pokémon left out follow in team order
+	order: number[];
+}
+
+/**
+ * Union type for the decision made for a single active slot, or for the whole team at team preview
+ */
+export type SlotDecision =
+	| MoveDecision
+	| SwitchDecision
+	| PassDecision
+	| DefaultDecision
+	| TeamDecision;
+
+/**
+ * Interface for a player's full decision, with one entry per active slot
+ */
+export interface PlayerDecision {
+	choices: SlotDecision[];
+	// ID of the request this decision answers
+	rqid?: number;
+}
+
+/**
+ * Type for the part of a set a team validation problem refers to
+ */
+export type TeamProblemField =
+	| "species"
+	| "ability"
+	| "item"
+	| "moves"
+	| "nature"
+	| "evs"
+	| "ivs"
+	| "level"
+	| "team";
+
+/**
+ * Interface for a single team validation problem
+ */
+export interface TeamProblem {
+	pokemonIndex: number | null; // 0-based index into the team, null for team-wide problems
+	species?: string;
+	field: TeamProblemField;
+	message: string;
+}
 
 /**
  * Type for protocol line handlers
@@ -0,0 +1,118 @@
+import { Battle } from "@pkmn/client";
+import { Generations } from "@pkmn/data";
+import { Dex } from "@pkmn/dex";
+import { Protocol } from "@pkmn/protocol";
+import type { ObjectReadWriteStream } from "@pkmn/streams";
+import type { PlayerRequest, PlayerStrategy } from "./battle-types";
+import { ManualPlayer } from "./player";
+
+/**
+ * User ID and display name used for the built-in AI opponent
+ */
+export const BOT_USER_ID = "computer";
+export const BOT_PLAYER_NAME = "Computer";
+
+// Count every data entry the sim knows about, so National Dex and past formats still resolve
+const gens = new Generations(Dex, (data) => !!data.exists);
+
+/**
+ * Class representing a bot player that answers every request using a strategy
+ */
+export class BotPlayer extends ManualPlayer {
+	strategy: PlayerStrategy;
+	battle = new Battle(gens);
+	private retriedRequest = false;
+	private pendingRequest: PlayerRequest | null = null;
+	private answerTimer?: ReturnType<typeof setTimeout>;
+	private hasChosen: () => boolean;
+
+	/**
+	 * Create a bot player
+	 * @param playerStream - The player's stream
+	 * @param strategy - The strategy that makes the bot's decisions
+	 * @param debug - Whether to enable debug logging
+	 * @param playerName - The player's name
+	 * @param onRequestReceived - Callback for when a request is received
+	 * @param onProtocolLine - Callback for protocol lines
+	 * @param hasChosen - Whether the sim already has the bot's choice for its latest request,
+	 * as when a restored battle's input log holds it
+	 */
+	constructor(
+		playerStream: ObjectReadWriteStream<string>,
+		strategy: PlayerStrategy,
+		debug = false,
+		playerName = "Unknown",
+		onRequestReceived: (request: PlayerRequest) => void = () => {},
+		onProtocolLine: (lines: string[]) => void = () => {},
+		hasChosen: () => boolean = () => false,
+	) {
+		super(playerStream, debug, playerName, onRequestReceived, onProtocolLine);
+		this.strategy = strategy;
+		this.hasChosen = hasChosen;
+	}
+
+	/**
+	 * Receive a chunk of data from the stream, keeping the battle view up to date
+	 * @param chunk - The data chunk
+	 */
+	receive(chunk: string): void {
+		for (const line of chunk.split("\n")) {
+			if (!line || line.startsWith("|request|")) continue;
+			try {
+				const { args, kwArgs } = Protocol.parseBattleLine(line);
+				// @ts-ignore
+				this.battle.add(args, kwArgs);
+			} catch (e) {
+				console.error(`${this.playerName} error parsing line: "${line}"`, e);
+			}
+		}
+		this.battle.update();
+		super.receive(chunk);
+	}
+
+	/**
+	 * Handle a request by choosing on the next tick
+	 * @param request - The request object
+	 */
+	receiveRequest(request: PlayerRequest): void {
+		if (this.debug) console.log(`${this.playerName} parsed request:`, request);
+		this.pendingRequest = request.wait ? null : request;
+
+		// Only the latest of a burst of requests is answered, e.g. when a battle is restored from its input log
+		if (!this.answerTimer) {
+			this.answerTimer = setTimeout(() => this.answerPendingRequest(), 0);
+		}
+	}
+
+	/**
+	 * Choose for the latest request that still needs an answer
+	 */
+	private answerPendingRequest(): void {
+		this.answerTimer = undefined;
+		const request = this.pendingRequest;
+		this.pendingRequest = null;
+		// Choosing again would be refused, or taken as the choice for the next request
+		if (!request || this.hasChosen()) return;
+		this.retriedRequest = false;
+
+		if (request.teamPreview) {
+			this.makeChoice("default");
+			return;
+		}
+
+		this.makeChoice(this.strategy.choose(request, this.battle));
+	}
+
+	/**
+	 * Handle an error, falling back to the sim's default choice if ours was rejected
+	 * @param error - The error
+	 */
+	receiveError(error: Error): void {
+		super.receiveError(error);
+		// Unavailable choices are followed by an updated request, so only retry invalid ones
+		if (error.message.startsWith("[Invalid choice]") && !this.retriedRequest) {
+			this.retriedRequest = true;
+			this.makeChoice("default");
+		}
+	}
+}
@@ -0,0 +1,526 @@
+import type { Battle, Pokemon } from "@pkmn/client";
+import type { Generation, TypeName } from "@pkmn/data";
+import type {
+	BotDifficulty,
+	PlayerRequest,
+	PlayerStrategy,
+} from "./battle-types";
+
+type RequestPokemon = PlayerRequest["side"]["pokemon"][number];
+type ActiveRequest = NonNullable<PlayerRequest["active"]>[number];
+
+// Move targets the sim requires an explicit target for when more than one Pokémon is active
+const FOE_TARGETS = new Set(["normal", "any", "adjacentFoe"]);
+const ALLY_TARGETS = new Set(["adjacentAlly", "adjacentAllyOrSelf"]);
+const SPREAD_TARGETS = new Set(["allAdjacentFoes", "allAdjacent"]);
+
+// Score given to status moves, so any useful attack is preferred over them
+const STATUS_MOVE_SCORE = 0.05;
+
+/**
+ * How the heuristic bot behaves at each difficulty above "easy"
+ */
+const DIFFICULTY_SETTINGS: Record<
+	Exclude<BotDifficulty, "easy">,
+	{
+		scoreNoise: number; // Random spread applied to move scores
+		switchMargin: number; // How much better a switch-in must be before switching
+		useGimmicks: boolean;
+	}
+> = {
+	normal: { scoreNoise: 0.4, switchMargin: 0.8, useGimmicks: false },
+	hard: { scoreNoise: 0, switchMargin: 0.4, useGimmicks: true },
+};
+
+/**
+ * Pick a random element from an array
+ * @param items - The items to pick from
+ * @param random - Source of randomness in [0, 1)
+ */
+function sample<T>(items: T[], random: () => number): T | undefined {
+	return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Whether a Pokémon from a request has fainted
+ * @param pokemon - The Pokémon from the request
+ */
+function isFainted(pokemon: RequestPokemon | undefined): boolean {
+	return !pokemon || pokemon.condition.endsWith(" fnt");
+}
+
+/**
+ * Get the 1-based indices of moves a slot is allowed to use
+ * @param slot - The active slot's request
+ */
+function getUsableMoves(slot: ActiveRequest): number[] {
+	return slot.moves.flatMap((move, index) =>
+		!move.disabled && (move.pp > 0 || slot.moves.length === 1)
+			? [index + 1]
+			: [],
+	);
+}
+
+/**
+ * Get the 1-based team indices that can switch in, excluding ones already chosen
+ * @param request - The request from the battle stream
+ * @param chosen - Team indices already chosen this turn
+ */
+function getSwitchOptions(
+	request: PlayerRequest,
+	chosen: Set<number>,
+): number[] {
+	return request.side.pokemon.flatMap((pokemon, index) =>
+		!pokemon.active && !isFainted(pokemon) && !chosen.has(index + 1)
+			? [index + 1]
+			: [],
+	);
+}
+
+/**
+ * Whether a foe slot is adjacent to one of our slots (foe slots are mirrored)
+ * @param slot - Our 0-based slot
+ * @param foeSlot - The foe's 0-based slot
+ * @param activeCount - The number of active slots per side
+ */
+function isAdjacentFoe(slot: number, foeSlot: number, activeCount: number) {
+	return Math.abs(activeCount - 1 - foeSlot - slot) <= 1;
+}
+
+/**
+ * Get the target suffix for an ally-targeting move in a multi-battle
+ * @param moveTarget - The move's target type
+ * @param slot - Our 0-based slot
+ */
+function getAllyTarget(moveTarget: string, slot: number): string {
+	return moveTarget === "adjacentAllyOrSelf"
+		? ` -${slot + 1}`
+		: ` -${slot === 0 ? 2 : slot}`;
+}
+
+/**
+ * Build a random legal choice string for a request
+ * @param request - The request from the battle stream
+ * @param random - Source of randomness in [0, 1)
+ */
+function getRandomChoice(request: PlayerRequest, random: () => number): string {
+	const pokemon = request.side.pokemon;
+	const chosenSwitches = new Set<number>();
+
+	const chooseSwitch = (): string => {
+		const switchIndex = sample(
+			getSwitchOptions(request, chosenSwitches),
+			random,
+		);
+		if (!switchIndex) return "pass";
+		chosenSwitches.add(switchIndex);
+		return `switch ${switchIndex}`;
+	};
+
+	if (request.forceSwitch) {
+		return request.forceSwitch
+			.map((mustSwitch) => (mustSwitch ? chooseSwitch() : "pass"))
+			.join(", ");
+	}
+
+	const active = request.active ?? [];
+	return active
+		.map((slot, index) => {
+			if (isFainted(pokemon[index])) return "pass";
+
+			const moveIndex = sample(getUsableMoves(slot), random);
+			if (!moveIndex) return "move 1";
+
+			const moveTarget = slot.moves[moveIndex - 1].target;
+			let target = "";
+			if (active.length > 1) {
+				if (FOE_TARGETS.has(moveTarget)) {
+					// The foe directly opposite is always adjacent
+					target = ` ${active.length - index}`;
+				} else if (ALLY_TARGETS.has(moveTarget)) {
+					target = getAllyTarget(moveTarget, index);
+				}
+			}
+
+			return `move ${moveIndex}${target}`;
+		})
+		.join(", ");
+}
+
+/**
+ * The numbers the damage estimate needs about one side of an attack
+ */
+interface Combatant {
+	level: number;
+	types: TypeName[];
+	stats: { hp: number; atk: number; def: number; spa: number; spd: number };
+	hp: number; // Fraction of max HP remaining
+}
+
+/**
+ * Estimate a stat from its base value, assuming neutral nature, max IVs and spread EVs
+ * @param base - The base stat
+ * @param level - The Pokémon's level
+ * @param isHP - Whether the stat is HP
+ */
+function estimateStat(base: number, level: number, isHP = false): number {
+	const stat = Math.floor(((2 * base + 31 + 21) * level) / 100);
+	return isHP ? stat + level + 10 : stat + 5;
+}
+
+/**
+ * Get the level from a details string like "Greninja, L83, M"
+ * @param details - The details string
+ */
+function getLevel(details: string): number {
+	const level = details.split(", ").find((part) => /^L\d+$/.test(part));
+	return level ? Number(level.slice(1)) : 100;
+}
+
+/**
+ * Build a combatant for one of our own Pokémon from the request
+ * @param gen - The generation data
+ * @param pokemon - The Pokémon from the request
+ */
+function getOwnCombatant(gen: Generation, pokemon: RequestPokemon): Combatant {
+	const species = gen.species.get(pokemon.details.split(", ")[0]);
+	const [hp, maxHP] = pokemon.condition.split(" ")[0].split("/").map(Number);
+	return {
+		level: getLevel(pokemon.details),
+		types: pokemon.terastallized
+			? [pokemon.terastallized as TypeName]
+			: (species?.types ?? []),
+		stats: { hp: maxHP || hp || 1, ...pokemon.stats },
+		hp: maxHP ? hp / maxHP : hp > 0 ? 1 : 0,
+	};
+}
+
+/**
+ * Build a combatant for an opposing Pokémon, estimating its stats from base stats
+ * @param pokemon - The opposing Pokémon as seen in the battle view
+ */
+function getOpponentCombatant(pokemon: Pokemon): Combatant {
+	const { baseStats } = pokemon.species;
+	return {
+		level: pokemon.level,
+		types: pokemon.terastallized ? [pokemon.terastallized] : pokemon.types,
+		stats: {
+			hp: estimateStat(baseStats.hp, pokemon.level, true),
+			atk: estimateStat(baseStats.atk, pokemon.level),
+			def: estimateStat(baseStats.def, pokemon.level),
+			spa: estimateStat(baseStats.spa, pokemon.level),
+			spd: estimateStat(baseStats.spd, pokemon.level),
+		},
+		hp: pokemon.maxhp ? pokemon.hp / pokemon.maxhp : 0,
+	};
+}
+
+/**
+ * Estimate how much of the defender's remaining HP a move takes, from 0 to 1
+ * @param gen - The generation data
+ * @param moveId - The move ID
+ * @param attacker - The attacking Pokémon
+ * @param defender - The defending Pokémon
+ */
+function estimateDamage(
+	gen: Generation,
+	moveId: string,
+	attacker: Combatant,
+	defender: Combatant,
+): number {
+	const move = gen.moves.get(moveId);
+	if (!move || move.category === "Status") return 0;
+
+	const effectiveness = gen.types.totalEffectiveness(move.type, defender.types);
+	if (effectiveness === 0) return 0;
+
+	let damage: number;
+	if (move.damage === "level") {
+		damage = attacker.level;
+	} else if (typeof move.damage === "number") {
+		damage = move.damage;
+	} else {
+		// Moves with variable power report 0, so assume an average attack
+		let basePower = move.basePower || 60;
+		if (Array.isArray(move.multihit)) basePower *= 3;
+		else if (move.multihit) basePower *= move.multihit;
+
+		const physical = move.category === "Physical";
+		const attack = physical ? attacker.stats.atk : attacker.stats.spa;
+		const defense = physical ? defender.stats.def : defender.stats.spd;
+		const stab = attacker.types.includes(move.type) ? 1.5 : 1;
+
+		damage =
+			((((2 * attacker.level) / 5 + 2) * basePower * attack) / defense / 50 +
+				2) *
+			stab *
+			effectiveness *
+			0.925; // Average damage roll
+	}
+
+	const remainingHP = defender.stats.hp * defender.hp;
+	return remainingHP > 0 ? Math.min(1, damage / remainingHP) : 0;
+}
+
+/**
+ * Estimate how much of our remaining HP the foe takes with its best same-type attack
+ * @param gen - The generation data
+ * @param foe - The opposing Pokémon
+ * @param pokemon - Our Pokémon
+ */
+function estimateThreat(
+	gen: Generation,
+	foe: Combatant,
+	pokemon: Combatant,
+): number {
+	// The foe's moves are unknown, so assume a strong attack of each of its types
+	const physical = foe.stats.atk >= foe.stats.spa;
+	return Math.max(
+		0,
+		...foe.types.map((type) => {
+			const effectiveness = gen.types.totalEffectiveness(type, pokemon.types);
+			const attack = physical ? foe.stats.atk : foe.stats.spa;
+			const defense = physical ? pokemon.stats.def : pokemon.stats.spd;
+			const damage =
+				((((2 * foe.level) / 5 + 2) * 80 * attack) / defense / 50 + 2) *
+				1.5 *
+				effectiveness *
+				0.925;
+			const remainingHP = pokemon.stats.hp * pokemon.hp;
+			return remainingHP > 0 ? Math.min(1, damage / remainingHP) : 1;
+		}),
+	);
+}
+
+/**
+ * Score how well one of our Pokémon matches up against a foe, from -1 (bad) to 1 (good)
+ * @param gen - The generation data
+ * @param pokemon - Our Pokémon from the request
+ * @param foe - The opposing Pokémon
+ */
+function getMatchup(
+	gen: Generation,
+	pokemon: RequestPokemon,
+	foe: Combatant,
+): number {
+	const combatant = getOwnCombatant(gen, pokemon);
+	const offense = Math.max(
+		0,
+		...pokemon.moves.map((move) => estimateDamage(gen, move, combatant, foe)),
+	);
+	return offense - estimateThreat(gen, foe, combatant);
+}
+
+/**
+ * Pick the team member that best matches up against a foe
+ * @param gen - The generation data
+ * @param request - The request from the battle stream
+ * @param options - The 1-based team indices that may switch in
+ * @param foe - The opposing Pokémon, if known
+ */
+function getBestSwitch(
+	gen: Generation,
+	request: PlayerRequest,
+	options: number[],
+	foe: Combatant | null,
+): { pokemonIndex: number; matchup: number } | null {
+	let best: { pokemonIndex: number; matchup: number } | null = null;
+	for (const pokemonIndex of options) {
+		const matchup = foe
+			? getMatchup(gen, request.side.pokemon[pokemonIndex - 1], foe)
+			: 0;
+		if (!best || matchup > best.matchup) best = { pokemonIndex, matchup };
+	}
+	return best;
+}
+
+/**
+ * Build a choice string by scoring moves on estimated damage and type matchup
+ * @param request - The request from the battle stream
+ * @param battle - The battle as seen from the bot's side
+ * @param difficulty - How strongly the bot plays
+ * @param random - Source of randomness in [0, 1)
+ */
+function getHeuristicChoice(
+	request: PlayerRequest,
+	battle: Battle,
+	difficulty: Exclude<BotDifficulty, "easy">,
+	random: () => number,
+): string {
+	const settings = DIFFICULTY_SETTINGS[difficulty];
+	const gen = battle.gen;
+	const slotCount = request.forceSwitch?.length ?? request.active?.length ?? 1;
+	const foeSide = battle[request.side.id === "p1" ? "p2" : "p1"];
+	const foes = Array.from({ length: slotCount }, (_, slot) => {
+		const foe = foeSide.active[slot];
+		return foe && !foe.fainted ? getOpponentCombatant(foe) : null;
+	});
+	const chosenSwitches = new Set<number>();
+
+	// The foe opposite a slot, falling back to any foe still standing
+	const getOpposingFoe = (slot: number) =>
+		foes[slotCount - 1 - slot] ?? foes.find(Boolean) ?? null;
+
+	if (request.forceSwitch) {
+		return request.forceSwitch
+			.map((mustSwitch, slot) => {
+				if (!mustSwitch) return "pass";
+				const best = getBestSwitch(
+					gen,
+					request,
+					getSwitchOptions(request, chosenSwitches),
+					getOpposingFoe(slot),
+				);
+				if (!best) return "pass";
+				chosenSwitches.add(best.pokemonIndex);
+				return `switch ${best.pokemonIndex}`;
+			})
+			.join(", ");
+	}
+
+	const active = request.active ?? [];
+	let gimmickUsed = false;
+
+	return active
+		.map((slot, index) => {
+			const pokemon = request.side.pokemon[index];
+			if (isFainted(pokemon)) return "pass";
+
+			const attacker = getOwnCombatant(gen, pokemon);
+			const opposingFoe = getOpposingFoe(index);
+
+			// Switch out of bad matchups when a clearly better option is available
+			if (!slot.trapped && !slot.maybeTrapped && opposingFoe) {
+				const matchup = getMatchup(gen, pokemon, opposingFoe);
+				const best = getBestSwitch(
+					gen,
+					request,
+					getSwitchOptions(request, chosenSwitches),
+					opposingFoe,
+				);
+				if (
+					best &&
+					matchup < 0 &&
+					best.matchup - matchup >= settings.switchMargin
+				) {
+					chosenSwitches.add(best.pokemonIndex);
+					return `switch ${best.pokemonIndex}`;
+				}
+			}
+
+			let bestChoice: {
+				moveIndex: number;
+				score: number;
+				target: string;
+			} | null = null;
+			for (const moveIndex of getUsableMoves(slot)) {
+				const move = slot.moves[moveIndex - 1];
+				const isStatus = gen.moves.get(move.id)?.category === "Status";
+				let score = STATUS_MOVE_SCORE;
+				let target = "";
+
+				if (FOE_TARGETS.has(move.target)) {
+					// Aim at whichever reachable foe takes the most damage
+					let bestDamage = 0;
+					let bestTarget = slotCount - 1 - index;
+					foes.forEach((foe, foeSlot) => {
+						if (!foe) return;
+						if (
+							move.target !== "any" &&
+							!isAdjacentFoe(index, foeSlot, slotCount)
+						)
+							return;
+						const damage = estimateDamage(gen, move.id, attacker, foe);
+						if (damage > bestDamage) {
+							bestDamage = damage;
+							bestTarget = foeSlot;
+						}
+					});
+					if (!isStatus) score = bestDamage;
+					if (active.length > 1) target = ` ${bestTarget + 1}`;
+				} else if (SPREAD_TARGETS.has(move.target) && !isStatus) {
+					// Spread moves deal reduced damage when hitting several targets
+					const damage = foes.reduce(
+						(total, foe) =>
+							foe ? total + estimateDamage(gen, move.id, attacker, foe) : total,
+						0,
+					);
+					score = damage * (active.length > 1 ? 0.75 : 1);
+				} else if (ALLY_TARGETS.has(move.target) && active.length > 1) {
+					target = getAllyTarget(move.target, index);
+				}
+
+				if (settings.scoreNoise) {
+					score *= 1 + (random() - 0.5) * settings.scoreNoise;
+				}
+				if (!bestChoice || score > bestChoice.score) {
+					bestChoice = { moveIndex, score, target };
+				}
+			}
+
+			if (!bestChoice) return "move 1";
+
+			let gimmick = "";
+			if (settings.useGimmicks && !gimmickUsed) {
+				const move = gen.moves.get(slot.moves[bestChoice.moveIndex - 1].id);
+				if (slot.canMegaEvo) {
+					gimmick = " mega";
+				} else if (slot.canZMove?.[bestChoice.moveIndex - 1]) {
+					gimmick = " zmove";
+				} else if (
+					slot.canTerastallize &&
+					move?.category !== "Status" &&
+					slot.canTerastallize === move?.type
+				) {
+					gimmick = " terastallize";
+				}
+				gimmickUsed = gimmick !== "";
+			}
+
+			return `move ${bestChoice.moveIndex}${bestChoice.target}${gimmick}`;
+		})
+		.join(", ");
+}
+
+/**
+ * Create a strategy that picks uniformly among legal choices
+ * @param random - Source of randomness in [0, 1), e.g. a seeded PRNG
+ */
+export function createRandomStrategy(
+	random: () => number = Math.random,
+): PlayerStrategy {
+	return {
+		name: "random",
+		choose: (request) => getRandomChoice(request, random),
+	};
+}
+
+/**
+ * Create a strategy that scores moves on estimated damage and type matchup
+ * @param difficulty - How strongly the bot plays
+ * @param random - Source of randomness in [0, 1), e.g. a seeded PRNG
+ */
+export function createHeuristicStrategy(
+	difficulty: Exclude<BotDifficulty, "easy">,
+	random: () => number = Math.random,
+): PlayerStrategy {
+	return {
+		name: `heuristic-${difficulty}`,
+		choose: (request, battle) =>
+			getHeuristicChoice(request, battle, difficulty, random),
+	};
+}
+
+/**
+ * Get the strategy the built-in AI uses at a difficulty
+ * @param difficulty - How strongly the bot plays
+ * @param random - Source of randomness in [0, 1), e.g. a seeded PRNG
+ */
+export function getBotStrategy(
+	difficulty: BotDifficulty,
+	random: () => number = Math.random,
+): PlayerStrategy {
+	return difficulty === "easy"
+		? createRandomStrategy(random)
+		: createHeuristicStrategy(difficulty, random);
+}
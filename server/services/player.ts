@@ -9,6 +9,8 @@ export class ManualPlayer {
 	playerName: string;
 	onRequestReceived: (request: PlayerRequest) => void;
 	onProtocolLine: (lines: string[]) => void;
+	// ID of the last request received; the sim doesn't number its requests, so the player does
+	private lastRqid = 0;
 
 	/**
 	 * Create a manual player
@@ -57,32 +59,28 @@ export class ManualPlayer {
 	 */
 	receive(chunk: string): void {
 		if (this.debug) console.log(`${this.playerName} received:`, chunk);
-		const playerSpecificLines: string[] = [];
-
-		for (const line of chunk.split("\n")) {
-			if (!line) continue;
+		const lines = chunk.split("\n").filter((line) => line.length > 0);
 
+		for (const [index, line] of lines.entries()) {
 			if (line.startsWith("|request|")) {
-				playerSpecificLines.push(line);
 				try {
 					const requestJson = line.substring(9);
 					const request = JSON.parse(requestJson);
+					// Decisions quote the request's ID, so the player's view has to carry it too
+					request.rqid = ++this.lastRqid;
+					lines[index] = `|request|${JSON.stringify(request)}`;
 					this.receiveRequest(request);
 				} catch (e) {
 					console.error(`${this.playerName} error parsing request JSON:`, e, line);
-					if (!playerSpecificLines.includes(line)) playerSpecificLines.push(line);
 				}
 			} else if (line.startsWith("|error|")) {
-				const errorMsg = line.substring(7);
-				if (errorMsg.startsWith("[Unavailable choice]") || errorMsg.startsWith("[Invalid choice]")) {
-					playerSpecificLines.push(line);
-				}
-				this.receiveError(new Error(errorMsg));
+				this.receiveError(new Error(line.substring(7)));
 			}
 		}
 
-		if (playerSpecificLines.length > 0) {
-			this.onProtocolLine(playerSpecificLines);
+		// Pass on the player's whole view of the battle, which only has their own side's hidden information
+		if (lines.length > 0) {
+			this.onProtocolLine(lines);
 		}
 	}
 
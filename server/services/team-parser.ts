@@ -0,0 +1,15 @@
+import { Teams } from "@pkmn/sets";
+
+/**
+ * Parse a Showdown-format team paste into the packed team format
+ * @param paste - The team as exported from Showdown's teambuilder
+ * @returns The packed team, or null if the paste contains no Pokémon
+ */
+export function parseTeamPaste(paste: string): string | null {
+	if (!paste.trim()) return null;
+
+	const team = Teams.importTeam(paste);
+	if (!team || team.team.length === 0) return null;
+
+	return team.pack();
+}
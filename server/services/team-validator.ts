@@ -0,0 +1,93 @@
+import { Dex, TeamValidator, Teams, type PokemonSet } from "@pkmn/sim";
+import type { TeamProblem, TeamProblemField } from "./battle-types";
+
+// Game types two players can play; free-for-alls and multi battles need four
+const SUPPORTED_GAME_TYPES = new Set(["singles", "doubles", "triples"]);
+
+/**
+ * Work out which field of a set a validator message refers to
+ * @param message - The validator message
+ * @param set - The set the message was reported for
+ */
+function getProblemField(message: string, set: PokemonSet): TeamProblemField {
+	const lower = message.toLowerCase();
+
+	// Problems with a missing or misspelled ability can't be found by the ability's name
+	if (/\babilit(y|ies)\b/.test(lower)) return "ability";
+	if (set.ability && message.includes(set.ability)) return "ability";
+	if (set.item && message.includes(set.item)) return "item";
+	if (lower.includes("learn") || lower.includes("move")) return "moves";
+	if (lower.includes("nature")) return "nature";
+	if (/\bevs?\b/i.test(message)) return "evs";
+	if (/\bivs?\b/i.test(message)) return "ivs";
+	if (lower.includes("level")) return "level";
+	return "species";
+}
+
+/**
+ * Validate a packed team against a format
+ * @param packedTeam - The packed team
+ * @param format - The format ID to validate against
+ * @returns The problems found, or null if the team is legal
+ */
+export function validateTeam(
+	packedTeam: string,
+	format: string,
+): TeamProblem[] | null {
+	const team = Teams.unpack(packedTeam);
+	const originalTeam = Teams.unpack(packedTeam);
+	if (!team || !originalTeam) {
+		return [
+			{ pokemonIndex: null, field: "team", message: "Team could not be read." },
+		];
+	}
+
+	const validator = TeamValidator.get(format);
+	const teamProblems = validator.validateTeam(team);
+	if (!teamProblems?.length) return null;
+
+	// Validate each set on its own so problems can be attributed to a Pokémon.
+	// The validator mutates sets, so each one is unpacked fresh.
+	const setProblems = team.map((_, index) => {
+		const set = Teams.unpack(packedTeam)?.[index];
+		return set ? (validator.validateSet(set, {}) ?? []) : [];
+	});
+
+	return teamProblems.map((message) => {
+		const pokemonIndex = setProblems.findIndex((problems) =>
+			problems.includes(message),
+		);
+		if (pokemonIndex === -1) {
+			return { pokemonIndex: null, field: "team", message };
+		}
+
+		const set = originalTeam[pokemonIndex];
+		return {
+			pokemonIndex,
+			species: set.species,
+			field: getProblemField(message, set),
+			message,
+		};
+	});
+}
+
+/**
+ * Whether a format exists in the simulator and is played by two players
+ * @param format - The format ID
+ */
+export function isValidFormat(format: string): boolean {
+	const formatData = Dex.formats.get(format);
+	return (
+		formatData.exists &&
+		formatData.effectType === "Format" &&
+		SUPPORTED_GAME_TYPES.has(formatData.gameType)
+	);
+}
+
+/**
+ * Whether players must bring their own team, i.e. the format has no team generator
+ * @param format - The format ID
+ */
+export function formatRequiresTeam(format: string): boolean {
+	return !Dex.formats.get(format).team;
+}
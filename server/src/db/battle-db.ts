@@ -1,37 +1,37 @@
-import { supabase } from "../../lib/supabase";
-import type { BattleRecord, BattleRoom, PlayerRequest } from "../types";
+import { BOT_USER_ID } from "../../services/bot-player";
+import type { BattleRecord, BattleRecordUpdate, BattleRoom } from "../types";
+import { getBattleStore } from "./battle-store";
 
 /**
  * Retrieves a battle from the database by its ID
  */
 export async function getBattleFromDB(battleId: string): Promise<BattleRecord | null> {
-	const { data, error } = await supabase
-		.from("battles")
-		.select("*")
-		.eq("id", battleId)
-		.single();
-
-	if (error || !data) return null;
-	return data as BattleRecord;
+	return getBattleStore().getBattle(battleId);
 }
 
 /**
  * Converts a database battle record to a BattleRoom object
  */
 export function convertDBBattleToRoom(data: BattleRecord): BattleRoom {
+	const vsAI = data.p2_user_id === BOT_USER_ID;
 	const battleRoom: BattleRoom = {
 		battleId: data.id,
 		p1: data.p1_socket_id
 			? { socketId: data.p1_socket_id, userId: data.p1_user_id }
 			: null,
-		p2: data.p2_socket_id
-			? { socketId: data.p2_socket_id, userId: data.p2_user_id || "" }
-			: null,
+		p2: vsAI
+			? { socketId: "", userId: BOT_USER_ID }
+			: data.p2_socket_id
+				? { socketId: data.p2_socket_id, userId: data.p2_user_id || "" }
+				: null,
 		spectators: [],
 		format: data.format,
 		started: data.status === "active",
 		p1Decision: null,
 		p2Decision: null,
+		vsAI,
+		p1Team: data.p1_team ?? undefined,
+		p2Team: data.p2_team ?? undefined,
 	};
 
 	return battleRoom;
@@ -46,19 +46,33 @@ export async function createBattleInDB(
 	p1UserId: string,
 	p1SocketId: string,
 	p1Name: string,
-	p2Name = "Waiting for Player..."
+	p2Name = "Waiting for Player...",
+	seed: string | null = null,
+	p1Team: string | null = null
 ): Promise<boolean> {
-	const { error } = await supabase.from("battles").insert({
+	const now = new Date().toISOString();
+
+	return getBattleStore().createBattle({
 		id: battleId,
 		format: format,
 		p1_user_id: p1UserId,
+		p2_user_id: null,
 		p1_socket_id: p1SocketId,
+		p2_socket_id: null,
 		p1_name: p1Name,
 		p2_name: p2Name,
 		status: "waiting",
+		winner: null,
+		last_activity_at: now,
+		created_at: now,
+		p1_last_request: null,
+		p2_last_request: null,
+		initial_protocol_lines: [],
+		seed: seed,
+		input_log: null,
+		p1_team: p1Team,
+		p2_team: null,
 	});
-
-	return !error;
 }
 
 /**
@@ -66,55 +80,52 @@ export async function createBattleInDB(
  */
 export async function updateBattleInDB(
 	battleId: string,
-	updates: Partial<{
-		p1_user_id: string;
-		p2_user_id: string;
-		p1_socket_id: string | null;
-		p2_socket_id: string | null;
-		p1_name: string;
-		p2_name: string;
-		status: "waiting" | "active" | "finished";
-		winner: string | null;
-		last_activity_at: string;
-		p1_last_request: PlayerRequest | null;
-		p2_last_request: PlayerRequest | null;
-		initial_protocol_lines: string[];
-	}>
+	updates: BattleRecordUpdate
 ): Promise<boolean> {
 	// Always update the last_activity_at timestamp
 	updates.last_activity_at = new Date().toISOString();
 
-	const { error } = await supabase
-		.from("battles")
-		.update(updates)
-		.eq("id", battleId);
-
-	if (error) {
-		console.error(`[DB] Error updating battle ${battleId}:`, error);
-		return false;
-	}
-
-	return true;
+	return getBattleStore().updateBattle(battleId, updates);
 }
 
 /**
  * Deletes a battle from the database
  */
 export async function deleteBattleFromDB(battleId: string): Promise<boolean> {
-	const { error } = await supabase.from("battles").delete().eq("id", battleId);
-	return !error;
+	return getBattleStore().deleteBattle(battleId);
+}
+
+/**
+ * Records the next lines of a battle's protocol log
+ */
+export async function appendProtocolLinesInDB(
+	battleId: string,
+	startIndex: number,
+	lines: string[],
+): Promise<boolean> {
+	return getBattleStore().appendProtocolLines(battleId, startIndex, lines);
+}
+
+/**
+ * Retrieves a battle's full protocol log, for replays
+ */
+export async function getProtocolLogFromDB(battleId: string): Promise<string[]> {
+	return getBattleStore().getProtocolLog(battleId);
 }
 
 /**
  * Retrieves recent battles from the database
  */
 export async function getRecentBattles(limit = 50): Promise<BattleRecord[]> {
-	const { data, error } = await supabase
-		.from("battles")
-		.select("*")
-		.order("created_at", { ascending: false })
-		.limit(limit);
+	return getBattleStore().getRecentBattles(limit);
+}
 
-	if (error) return [];
-	return data as BattleRecord[];
+/**
+ * Gets the most recently created battles with any of the given statuses
+ */
+export async function getBattlesByStatus(
+	statuses: BattleRecord["status"][],
+	limit = 50,
+): Promise<BattleRecord[]> {
+	return getBattleStore().getBattlesByStatus(statuses, limit);
 } 
\ No newline at end of file
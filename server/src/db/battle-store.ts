@@ -0,0 +1,188 @@
+import type {
+	BattleRecord,
+	BattleRecordUpdate,
+	GuestClaimRecord,
+	RatingRecord,
+	UserRecord,
+} from "../types";
+import { MemoryBattleStore } from "./memory-battle-store";
+import { SQLiteBattleStore } from "./sqlite-battle-store";
+import { SupabaseBattleStore } from "./supabase-battle-store";
+
+/**
+ * Storage backend for battle records, player ratings and accounts
+ */
+export interface BattleStore {
+	/**
+	 * Get a battle by its ID
+	 * @param battleId - The battle's ID
+	 * @returns The battle, or null if it does not exist
+	 */
+	getBattle(battleId: string): Promise<BattleRecord | null>;
+
+	/**
+	 * Insert a new battle
+	 * @param battle - The full battle record
+	 * @returns Whether the battle was stored
+	 */
+	createBattle(battle: BattleRecord): Promise<boolean>;
+
+	/**
+	 * Update some fields of a battle
+	 * @param battleId - The battle's ID
+	 * @param updates - The fields to change
+	 * @returns Whether the battle was updated
+	 */
+	updateBattle(battleId: string, updates: BattleRecordUpdate): Promise<boolean>;
+
+	/**
+	 * Delete a battle
+	 * @param battleId - The battle's ID
+	 * @returns Whether the battle was deleted
+	 */
+	deleteBattle(battleId: string): Promise<boolean>;
+
+	/**
+	 * Record the next lines of a battle's protocol log. Positions that already hold a line keep it,
+	 * so history replayed when a battle is restored is not recorded twice
+	 * @param battleId - The battle's ID
+	 * @param startIndex - The position of the first line in the log
+	 * @param lines - The lines
+	 * @returns Whether the lines were stored
+	 */
+	appendProtocolLines(
+		battleId: string,
+		startIndex: number,
+		lines: string[],
+	): Promise<boolean>;
+
+	/**
+	 * Get a battle's full protocol log, with |split| markers
+	 * @param battleId - The battle's ID
+	 * @returns The log, empty if none was recorded
+	 */
+	getProtocolLog(battleId: string): Promise<string[]>;
+
+	/**
+	 * Get the most recently created battles, newest first
+	 * @param limit - The maximum number of battles to return
+	 */
+	getRecentBattles(limit: number): Promise<BattleRecord[]>;
+
+	/**
+	 * Get the most recently created battles with any of the given statuses, newest first
+	 * @param statuses - The statuses to include
+	 * @param limit - The maximum number of battles to return
+	 */
+	getBattlesByStatus(
+		statuses: BattleRecord["status"][],
+		limit: number,
+	): Promise<BattleRecord[]>;
+
+	/**
+	 * Get a user's rating in a format
+	 * @param userId - The user's ID
+	 * @param format - The format ID
+	 * @returns The rating, or null if the user has not played a rated game in the format
+	 */
+	getRating(userId: string, format: string): Promise<RatingRecord | null>;
+
+	/**
+	 * Insert or replace a user's rating in a format
+	 * @param rating - The full rating record
+	 * @returns Whether the rating was stored
+	 */
+	saveRating(rating: RatingRecord): Promise<boolean>;
+
+	/**
+	 * Get the highest ratings in a format, best first
+	 * @param format - The format ID
+	 * @param limit - The maximum number of ratings to return
+	 */
+	getLeaderboard(format: string, limit: number): Promise<RatingRecord[]>;
+
+	/**
+	 * Get an account by its ID
+	 * @param userId - The account's user ID
+	 * @returns The account, or null if it does not exist
+	 */
+	getUser(userId: string): Promise<UserRecord | null>;
+
+	/**
+	 * Insert a new account
+	 * @param user - The full account record
+	 * @returns Whether the account was stored, which fails if the ID is taken
+	 */
+	createUser(user: UserRecord): Promise<boolean>;
+
+	/**
+	 * Get the claim on a guest user ID
+	 * @param userId - The guest's user ID
+	 * @returns The claim, or null if the ID has never been claimed
+	 */
+	getGuestClaim(userId: string): Promise<GuestClaimRecord | null>;
+
+	/**
+	 * Claim a guest user ID for a new resume token, if the ID is unclaimed or its claim is still
+	 * held by the token presented as proof
+	 * @param claim - The claim, with the new token's ID
+	 * @param previousTokenId - The ID of the presented token, or null if none was presented
+	 * @returns Whether the claim was stored
+	 */
+	claimGuestId(
+		claim: GuestClaimRecord,
+		previousTokenId: string | null,
+	): Promise<boolean>;
+}
+
+export type BattleStoreType = "memory" | "sqlite" | "supabase";
+
+const BATTLE_STORE_TYPES: BattleStoreType[] = ["memory", "sqlite", "supabase"];
+const DEFAULT_SQLITE_PATH = "battles.sqlite";
+
+let battleStore: BattleStore | null = null;
+
+/**
+ * Work out which store to use from BATTLE_STORE, falling back to Supabase when it is configured
+ */
+function getBattleStoreType(): BattleStoreType {
+	const configured = process.env.BATTLE_STORE;
+	if (configured) {
+		if (!BATTLE_STORE_TYPES.includes(configured as BattleStoreType)) {
+			throw new Error(
+				`BATTLE_STORE must be one of ${BATTLE_STORE_TYPES.join(", ")}, got "${configured}"`,
+			);
+		}
+		return configured as BattleStoreType;
+	}
+	return process.env.SUPABASE_URL ? "supabase" : "memory";
+}
+
+/**
+ * Create a battle store
+ * @param type - The kind of store to create
+ */
+export function createBattleStore(type: BattleStoreType): BattleStore {
+	switch (type) {
+		case "memory":
+			return new MemoryBattleStore();
+		case "sqlite":
+			return new SQLiteBattleStore(
+				process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH,
+			);
+		case "supabase":
+			return new SupabaseBattleStore();
+	}
+}
+
+/**
+ * Get the configured battle store, creating it on first use
+ */
+export function getBattleStore(): BattleStore {
+	if (!battleStore) {
+		const type = getBattleStoreType();
+		battleStore = createBattleStore(type);
+		console.log(`[DB] Using ${type} battle store`);
+	}
+	return battleStore;
+}
@@ -0,0 +1,139 @@
+import type {
+	BattleRecord,
+	BattleRecordUpdate,
+	GuestClaimRecord,
+	RatingRecord,
+	UserRecord,
+} from "../types";
+import type { BattleStore } from "./battle-store";
+
+/**
+ * Battle store that keeps records in process memory, so they are lost on restart
+ */
+export class MemoryBattleStore implements BattleStore {
+	private battles = new Map<string, BattleRecord>();
+	private protocolLogs = new Map<string, string[]>();
+	// Keyed by format, then user ID
+	private ratings = new Map<string, Map<string, RatingRecord>>();
+	private users = new Map<string, UserRecord>();
+	private guestClaims = new Map<string, GuestClaimRecord>();
+
+	async getBattle(battleId: string): Promise<BattleRecord | null> {
+		const battle = this.battles.get(battleId);
+		return battle ? structuredClone(battle) : null;
+	}
+
+	async createBattle(battle: BattleRecord): Promise<boolean> {
+		if (this.battles.has(battle.id)) return false;
+		this.battles.set(battle.id, structuredClone(battle));
+		return true;
+	}
+
+	async updateBattle(
+		battleId: string,
+		updates: BattleRecordUpdate,
+	): Promise<boolean> {
+		const battle = this.battles.get(battleId);
+		if (!battle) return false;
+		this.battles.set(battleId, { ...battle, ...structuredClone(updates) });
+		return true;
+	}
+
+	async deleteBattle(battleId: string): Promise<boolean> {
+		this.battles.delete(battleId);
+		this.protocolLogs.delete(battleId);
+		return true;
+	}
+
+	async appendProtocolLines(
+		battleId: string,
+		startIndex: number,
+		lines: string[],
+	): Promise<boolean> {
+		let log = this.protocolLogs.get(battleId);
+		if (!log) {
+			log = [];
+			this.protocolLogs.set(battleId, log);
+		}
+		lines.forEach((line, offset) => {
+			log[startIndex + offset] ??= line;
+		});
+		return true;
+	}
+
+	async getProtocolLog(battleId: string): Promise<string[]> {
+		// Skip any positions whose lines were never recorded
+		return (this.protocolLogs.get(battleId) ?? []).filter(
+			(line) => line !== undefined,
+		);
+	}
+
+	async getRecentBattles(limit: number): Promise<BattleRecord[]> {
+		return [...this.battles.values()]
+			.sort((a, b) => b.created_at.localeCompare(a.created_at))
+			.slice(0, limit)
+			.map((battle) => structuredClone(battle));
+	}
+
+	async getBattlesByStatus(
+		statuses: BattleRecord["status"][],
+		limit: number,
+	): Promise<BattleRecord[]> {
+		return [...this.battles.values()]
+			.filter((battle) => statuses.includes(battle.status))
+			.sort((a, b) => b.created_at.localeCompare(a.created_at))
+			.slice(0, limit)
+			.map((battle) => structuredClone(battle));
+	}
+
+	async getRating(
+		userId: string,
+		format: string,
+	): Promise<RatingRecord | null> {
+		const rating = this.ratings.get(format)?.get(userId);
+		return rating ? { ...rating } : null;
+	}
+
+	async saveRating(rating: RatingRecord): Promise<boolean> {
+		let formatRatings = this.ratings.get(rating.format);
+		if (!formatRatings) {
+			formatRatings = new Map();
+			this.ratings.set(rating.format, formatRatings);
+		}
+		formatRatings.set(rating.user_id, { ...rating });
+		return true;
+	}
+
+	async getLeaderboard(format: string, limit: number): Promise<RatingRecord[]> {
+		return [...(this.ratings.get(format)?.values() ?? [])]
+			.sort((a, b) => b.rating - a.rating)
+			.slice(0, limit)
+			.map((rating) => ({ ...rating }));
+	}
+
+	async getUser(userId: string): Promise<UserRecord | null> {
+		const user = this.users.get(userId);
+		return user ? { ...user } : null;
+	}
+
+	async createUser(user: UserRecord): Promise<boolean> {
+		if (this.users.has(user.id)) return false;
+		this.users.set(user.id, { ...user });
+		return true;
+	}
+
+	async getGuestClaim(userId: string): Promise<GuestClaimRecord | null> {
+		const claim = this.guestClaims.get(userId);
+		return claim ? { ...claim } : null;
+	}
+
+	async claimGuestId(
+		claim: GuestClaimRecord,
+		previousTokenId: string | null,
+	): Promise<boolean> {
+		const current = this.guestClaims.get(claim.user_id);
+		if (current && current.token_id !== previousTokenId) return false;
+		this.guestClaims.set(claim.user_id, { ...claim });
+		return true;
+	}
+}
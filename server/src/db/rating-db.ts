@@ -0,0 +1,29 @@
+import type { RatingRecord } from "../types";
+import { getBattleStore } from "./battle-store";
+
+/**
+ * Retrieves a user's rating in a format from the database
+ */
+export async function getRatingFromDB(
+	userId: string,
+	format: string,
+): Promise<RatingRecord | null> {
+	return getBattleStore().getRating(userId, format);
+}
+
+/**
+ * Saves a user's rating in a format to the database
+ */
+export async function saveRatingInDB(rating: RatingRecord): Promise<boolean> {
+	return getBattleStore().saveRating(rating);
+}
+
+/**
+ * Retrieves the highest ratings in a format from the database
+ */
+export async function getLeaderboardFromDB(
+	format: string,
+	limit = 50,
+): Promise<RatingRecord[]> {
+	return getBattleStore().getLeaderboard(format, limit);
+}
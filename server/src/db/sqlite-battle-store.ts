@@ -0,0 +1,359 @@
+import { Database } from "bun:sqlite";
+import type {
+	BattleRecord,
+	BattleRecordUpdate,
+	GuestClaimRecord,
+	RatingRecord,
+	UserRecord,
+} from "../types";
+import type { BattleStore } from "./battle-store";
+
+type BattleColumn = keyof BattleRecord;
+type BattleRow = Record<BattleColumn, string | null>;
+
+// Columns holding objects or arrays, stored as JSON text
+const JSON_COLUMNS = new Set<BattleColumn>([
+	"p1_last_request",
+	"p2_last_request",
+	"initial_protocol_lines",
+	"input_log",
+]);
+
+const COLUMNS: BattleColumn[] = [
+	"id",
+	"format",
+	"p1_user_id",
+	"p2_user_id",
+	"p1_socket_id",
+	"p2_socket_id",
+	"p1_name",
+	"p2_name",
+	"status",
+	"winner",
+	"last_activity_at",
+	"created_at",
+	"p1_last_request",
+	"p2_last_request",
+	"initial_protocol_lines",
+	"seed",
+	"input_log",
+	"p1_team",
+	"p2_team",
+];
+
+/**
+ * Battle store backed by a local SQLite database file
+ */
+export class SQLiteBattleStore implements BattleStore {
+	private db: Database;
+
+	/**
+	 * Open the database, creating the battles table if needed
+	 * @param path - The database file, or ":memory:"
+	 */
+	constructor(path: string) {
+		this.db = new Database(path, { create: true });
+		this.db.run("PRAGMA journal_mode = WAL");
+		this.db.run(`CREATE TABLE IF NOT EXISTS battles (
+			id TEXT PRIMARY KEY,
+			format TEXT NOT NULL,
+			p1_user_id TEXT NOT NULL,
+			p2_user_id TEXT,
+			p1_socket_id TEXT,
+			p2_socket_id TEXT,
+			p1_name TEXT NOT NULL,
+			p2_name TEXT,
+			status TEXT NOT NULL,
+			winner TEXT,
+			last_activity_at TEXT NOT NULL,
+			created_at TEXT NOT NULL,
+			p1_last_request TEXT,
+			p2_last_request TEXT,
+			initial_protocol_lines TEXT,
+			seed TEXT,
+			input_log TEXT,
+			p1_team TEXT,
+			p2_team TEXT
+		)`);
+		this.addMissingColumns();
+		this.db.run(
+			"CREATE INDEX IF NOT EXISTS battles_created_at ON battles (created_at)",
+		);
+		this.db.run(`CREATE TABLE IF NOT EXISTS battle_protocol_lines (
+			battle_id TEXT NOT NULL,
+			line_index INTEGER NOT NULL,
+			line TEXT NOT NULL,
+			PRIMARY KEY (battle_id, line_index)
+		)`);
+		this.db.run(`CREATE TABLE IF NOT EXISTS ratings (
+			user_id TEXT NOT NULL,
+			format TEXT NOT NULL,
+			rating REAL NOT NULL,
+			deviation REAL NOT NULL,
+			volatility REAL NOT NULL,
+			wins INTEGER NOT NULL,
+			losses INTEGER NOT NULL,
+			updated_at TEXT NOT NULL,
+			PRIMARY KEY (user_id, format)
+		)`);
+		this.db.run(
+			"CREATE INDEX IF NOT EXISTS ratings_format_rating ON ratings (format, rating)",
+		);
+		this.db.run(`CREATE TABLE IF NOT EXISTS users (
+			id TEXT PRIMARY KEY,
+			username TEXT NOT NULL,
+			password_hash TEXT NOT NULL,
+			created_at TEXT NOT NULL
+		)`);
+		this.db.run(`CREATE TABLE IF NOT EXISTS guest_claims (
+			user_id TEXT PRIMARY KEY,
+			token_id TEXT NOT NULL,
+			updated_at TEXT NOT NULL
+		)`);
+	}
+
+	/**
+	 * Add columns introduced after the database file was created
+	 */
+	private addMissingColumns(): void {
+		const existing = new Set(
+			this.db
+				.query<{ name: string }, []>("PRAGMA table_info(battles)")
+				.all()
+				.map((column) => column.name),
+		);
+		for (const column of COLUMNS) {
+			if (!existing.has(column)) {
+				this.db.run(`ALTER TABLE battles ADD COLUMN ${column} TEXT`);
+			}
+		}
+	}
+
+	async getBattle(battleId: string): Promise<BattleRecord | null> {
+		const row = this.db
+			.query<BattleRow, [string]>("SELECT * FROM battles WHERE id = ?")
+			.get(battleId);
+		return row ? this.fromRow(row) : null;
+	}
+
+	async createBattle(battle: BattleRecord): Promise<boolean> {
+		try {
+			this.db
+				.query(
+					`INSERT INTO battles (${COLUMNS.join(", ")}) VALUES (${COLUMNS.map(() => "?").join(", ")})`,
+				)
+				.run(...COLUMNS.map((column) => this.toValue(column, battle[column])));
+			return true;
+		} catch (error) {
+			console.error(`[DB] Error creating battle ${battle.id}:`, error);
+			return false;
+		}
+	}
+
+	async updateBattle(
+		battleId: string,
+		updates: BattleRecordUpdate,
+	): Promise<boolean> {
+		const fields = updates as Partial<BattleRecord>;
+		const columns = COLUMNS.filter((column) => fields[column] !== undefined);
+		if (columns.length === 0) return true;
+
+		try {
+			const result = this.db
+				.query(
+					`UPDATE battles SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE id = ?`,
+				)
+				.run(
+					...columns.map((column) => this.toValue(column, fields[column])),
+					battleId,
+				);
+			return result.changes > 0;
+		} catch (error) {
+			console.error(`[DB] Error updating battle ${battleId}:`, error);
+			return false;
+		}
+	}
+
+	async deleteBattle(battleId: string): Promise<boolean> {
+		this.db.query("DELETE FROM battles WHERE id = ?").run(battleId);
+		this.db
+			.query("DELETE FROM battle_protocol_lines WHERE battle_id = ?")
+			.run(battleId);
+		return true;
+	}
+
+	async appendProtocolLines(
+		battleId: string,
+		startIndex: number,
+		lines: string[],
+	): Promise<boolean> {
+		const insert = this.db.query(
+			"INSERT OR IGNORE INTO battle_protocol_lines (battle_id, line_index, line) VALUES (?, ?, ?)",
+		);
+		try {
+			this.db.transaction(() => {
+				lines.forEach((line, offset) => {
+					insert.run(battleId, startIndex + offset, line);
+				});
+			})();
+			return true;
+		} catch (error) {
+			console.error(
+				`[DB] Error recording protocol lines for battle ${battleId}:`,
+				error,
+			);
+			return false;
+		}
+	}
+
+	async getProtocolLog(battleId: string): Promise<string[]> {
+		return this.db
+			.query<{ line: string }, [string]>(
+				"SELECT line FROM battle_protocol_lines WHERE battle_id = ? ORDER BY line_index",
+			)
+			.all(battleId)
+			.map((row) => row.line);
+	}
+
+	async getRecentBattles(limit: number): Promise<BattleRecord[]> {
+		return this.db
+			.query<BattleRow, [number]>(
+				"SELECT * FROM battles ORDER BY created_at DESC LIMIT ?",
+			)
+			.all(limit)
+			.map((row) => this.fromRow(row));
+	}
+
+	async getBattlesByStatus(
+		statuses: BattleRecord["status"][],
+		limit: number,
+	): Promise<BattleRecord[]> {
+		if (statuses.length === 0) return [];
+		const placeholders = statuses.map(() => "?").join(", ");
+		return this.db
+			.query<BattleRow, (string | number)[]>(
+				`SELECT * FROM battles WHERE status IN (${placeholders}) ORDER BY created_at DESC LIMIT ?`,
+			)
+			.all(...statuses, limit)
+			.map((row) => this.fromRow(row));
+	}
+
+	async getRating(
+		userId: string,
+		format: string,
+	): Promise<RatingRecord | null> {
+		return (
+			this.db
+				.query<RatingRecord, [string, string]>(
+					"SELECT * FROM ratings WHERE user_id = ? AND format = ?",
+				)
+				.get(userId, format) ?? null
+		);
+	}
+
+	async saveRating(rating: RatingRecord): Promise<boolean> {
+		try {
+			this.db
+				.query(
+					`INSERT OR REPLACE INTO ratings (user_id, format, rating, deviation, volatility, wins, losses, updated_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.run(
+					rating.user_id,
+					rating.format,
+					rating.rating,
+					rating.deviation,
+					rating.volatility,
+					rating.wins,
+					rating.losses,
+					rating.updated_at,
+				);
+			return true;
+		} catch (error) {
+			console.error(
+				`[DB] Error saving ${rating.format} rating for ${rating.user_id}:`,
+				error,
+			);
+			return false;
+		}
+	}
+
+	async getLeaderboard(format: string, limit: number): Promise<RatingRecord[]> {
+		return this.db
+			.query<RatingRecord, [string, number]>(
+				"SELECT * FROM ratings WHERE format = ? ORDER BY rating DESC LIMIT ?",
+			)
+			.all(format, limit);
+	}
+
+	async getUser(userId: string): Promise<UserRecord | null> {
+		return (
+			this.db
+				.query<UserRecord, [string]>("SELECT * FROM users WHERE id = ?")
+				.get(userId) ?? null
+		);
+	}
+
+	async createUser(user: UserRecord): Promise<boolean> {
+		try {
+			this.db
+				.query(
+					"INSERT INTO users (id, username, password_hash, created_at) VALUES (?, ?, ?, ?)",
+				)
+				.run(user.id, user.username, user.password_hash, user.created_at);
+			return true;
+		} catch (error) {
+			// The ID is the primary key, so a taken username fails here
+			console.error(`[DB] Error creating user ${user.id}:`, error);
+			return false;
+		}
+	}
+
+	async getGuestClaim(userId: string): Promise<GuestClaimRecord | null> {
+		return (
+			this.db
+				.query<GuestClaimRecord, [string]>(
+					"SELECT * FROM guest_claims WHERE user_id = ?",
+				)
+				.get(userId) ?? null
+		);
+	}
+
+	async claimGuestId(
+		claim: GuestClaimRecord,
+		previousTokenId: string | null,
+	): Promise<boolean> {
+		// A claimed ID only moves to the new token when the previous one was presented
+		const result = this.db
+			.query(
+				`INSERT INTO guest_claims (user_id, token_id, updated_at) VALUES (?, ?, ?)
+				ON CONFLICT (user_id) DO UPDATE SET token_id = excluded.token_id, updated_at = excluded.updated_at
+				WHERE guest_claims.token_id = ?`,
+			)
+			.run(claim.user_id, claim.token_id, claim.updated_at, previousTokenId);
+		return result.changes > 0;
+	}
+
+	/**
+	 * Convert a field to the value stored in its column
+	 * @param column - The column name
+	 * @param value - The field's value
+	 */
+	private toValue(column: BattleColumn, value: unknown): string | null {
+		if (value === null || value === undefined) return null;
+		return JSON_COLUMNS.has(column) ? JSON.stringify(value) : String(value);
+	}
+
+	/**
+	 * Convert a database row back to a battle record
+	 * @param row - The row
+	 */
+	private fromRow(row: BattleRow): BattleRecord {
+		const record: Record<string, unknown> = { ...row };
+		for (const column of JSON_COLUMNS) {
+			const value = row[column];
+			record[column] = value === null ? null : JSON.parse(value);
+		}
+		return record as unknown as BattleRecord;
+	}
+}
@@ -0,0 +1,247 @@
+import { getSupabase } from "../../lib/supabase";
+import type {
+	BattleRecord,
+	BattleRecordUpdate,
+	GuestClaimRecord,
+	RatingRecord,
+	UserRecord,
+} from "../types";
+import type { BattleStore } from "./battle-store";
+
+// Most rows Supabase returns for one request by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Battle store backed by the Supabase "battles", "battle_protocol_lines", "ratings", "users" and
+ * "guest_claims" tables
+ */
+export class SupabaseBattleStore implements BattleStore {
+	// Fail at startup rather than on the first query if Supabase is not configured
+	private supabase = getSupabase();
+
+	async getBattle(battleId: string): Promise<BattleRecord | null> {
+		const { data, error } = await this.supabase
+			.from("battles")
+			.select("*")
+			.eq("id", battleId)
+			.single();
+
+		if (error || !data) return null;
+		return data as BattleRecord;
+	}
+
+	async createBattle(battle: BattleRecord): Promise<boolean> {
+		const { error } = await this.supabase.from("battles").insert(battle);
+
+		if (error) {
+			console.error(`[DB] Error creating battle ${battle.id}:`, error);
+			return false;
+		}
+
+		return true;
+	}
+
+	async updateBattle(
+		battleId: string,
+		updates: BattleRecordUpdate,
+	): Promise<boolean> {
+		const { error } = await this.supabase
+			.from("battles")
+			.update(updates)
+			.eq("id", battleId);
+
+		if (error) {
+			console.error(`[DB] Error updating battle ${battleId}:`, error);
+			return false;
+		}
+
+		return true;
+	}
+
+	async deleteBattle(battleId: string): Promise<boolean> {
+		const { error } = await this.supabase
+			.from("battles")
+			.delete()
+			.eq("id", battleId);
+		if (error) return false;
+
+		const { error: linesError } = await this.supabase
+			.from("battle_protocol_lines")
+			.delete()
+			.eq("battle_id", battleId);
+		return !linesError;
+	}
+
+	async appendProtocolLines(
+		battleId: string,
+		startIndex: number,
+		lines: string[],
+	): Promise<boolean> {
+		const rows = lines.map((line, offset) => ({
+			battle_id: battleId,
+			line_index: startIndex + offset,
+			line,
+		}));
+		const { error } = await this.supabase
+			.from("battle_protocol_lines")
+			.upsert(rows, {
+				onConflict: "battle_id,line_index",
+				ignoreDuplicates: true,
+			});
+
+		if (error) {
+			console.error(
+				`[DB] Error recording protocol lines for battle ${battleId}:`,
+				error,
+			);
+			return false;
+		}
+
+		return true;
+	}
+
+	async getProtocolLog(battleId: string): Promise<string[]> {
+		const log: string[] = [];
+		// Logs run longer than one page, so read them a page at a time
+		for (;;) {
+			const { data, error } = await this.supabase
+				.from("battle_protocol_lines")
+				.select("line")
+				.eq("battle_id", battleId)
+				.order("line_index")
+				.range(log.length, log.length + PAGE_SIZE - 1);
+
+			if (error) {
+				console.error(
+					`[DB] Error reading the protocol log of battle ${battleId}:`,
+					error,
+				);
+				return log;
+			}
+
+			log.push(...data.map((row) => row.line as string));
+			if (data.length < PAGE_SIZE) return log;
+		}
+	}
+
+	async getRecentBattles(limit: number): Promise<BattleRecord[]> {
+		const { data, error } = await this.supabase
+			.from("battles")
+			.select("*")
+			.order("created_at", { ascending: false })
+			.limit(limit);
+
+		if (error) return [];
+		return data as BattleRecord[];
+	}
+
+	async getBattlesByStatus(
+		statuses: BattleRecord["status"][],
+		limit: number,
+	): Promise<BattleRecord[]> {
+		const { data, error } = await this.supabase
+			.from("battles")
+			.select("*")
+			.in("status", statuses)
+			.order("created_at", { ascending: false })
+			.limit(limit);
+
+		if (error) return [];
+		return data as BattleRecord[];
+	}
+
+	async getRating(
+		userId: string,
+		format: string,
+	): Promise<RatingRecord | null> {
+		const { data, error } = await this.supabase
+			.from("ratings")
+			.select("*")
+			.eq("user_id", userId)
+			.eq("format", format)
+			.maybeSingle();
+
+		if (error || !data) return null;
+		return data as RatingRecord;
+	}
+
+	async saveRating(rating: RatingRecord): Promise<boolean> {
+		const { error } = await this.supabase
+			.from("ratings")
+			.upsert(rating, { onConflict: "user_id,format" });
+
+		if (error) {
+			console.error(
+				`[DB] Error saving ${rating.format} rating for ${rating.user_id}:`,
+				error,
+			);
+			return false;
+		}
+
+		return true;
+	}
+
+	async getLeaderboard(format: string, limit: number): Promise<RatingRecord[]> {
+		const { data, error } = await this.supabase
+			.from("ratings")
+			.select("*")
+			.eq("format", format)
+			.order("rating", { ascending: false })
+			.limit(limit);
+
+		if (error) return [];
+		return data as RatingRecord[];
+	}
+
+	async getUser(userId: string): Promise<UserRecord | null> {
+		const { data, error } = await this.supabase
+			.from("users")
+			.select("*")
+			.eq("id", userId)
+			.maybeSingle();
+
+		if (error || !data) return null;
+		return data as UserRecord;
+	}
+
+	async createUser(user: UserRecord): Promise<boolean> {
+		const { error } = await this.supabase.from("users").insert(user);
+
+		if (error) {
+			console.error(`[DB] Error creating user ${user.id}:`, error);
+			return false;
+		}
+
+		return true;
+	}
+
+	async getGuestClaim(userId: string): Promise<GuestClaimRecord | null> {
+		const { data, error } = await this.supabase
+			.from("guest_claims")
+			.select("*")
+			.eq("user_id", userId)
+			.maybeSingle();
+
+		if (error || !data) return null;
+		return data as GuestClaimRecord;
+	}
+
+	async claimGuestId(
+		claim: GuestClaimRecord,
+		previousTokenId: string | null,
+	): Promise<boolean> {
+		if (previousTokenId) {
+			const { data, error } = await this.supabase
+				.from("guest_claims")
+				.update(claim)
+				.eq("user_id", claim.user_id)
+				.eq("token_id", previousTokenId)
+				.select("user_id");
+			if (!error && data.length > 0) return true;
+		}
+
+		// Unclaimed IDs go to whoever claims them first; the primary key refuses the rest
+		const { error } = await this.supabase.from("guest_claims").insert(claim);
+		return !error;
+	}
+}
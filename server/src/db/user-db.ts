@@ -0,0 +1,38 @@
+import type { GuestClaimRecord, UserRecord } from "../types";
+import { getBattleStore } from "./battle-store";
+
+/**
+ * Retrieves an account from the database by its user ID
+ */
+export async function getUserFromDB(
+	userId: string,
+): Promise<UserRecord | null> {
+	return getBattleStore().getUser(userId);
+}
+
+/**
+ * Creates a new account in the database
+ */
+export async function createUserInDB(user: UserRecord): Promise<boolean> {
+	return getBattleStore().createUser(user);
+}
+
+/**
+ * Retrieves the claim on a guest user ID from the database
+ */
+export async function getGuestClaimFromDB(
+	userId: string,
+): Promise<GuestClaimRecord | null> {
+	return getBattleStore().getGuestClaim(userId);
+}
+
+/**
+ * Claims a guest user ID for a new resume token in the database
+ * @param previousTokenId - The ID of the token presented as proof, or null if none was
+ */
+export async function claimGuestIdInDB(
+	claim: GuestClaimRecord,
+	previousTokenId: string | null,
+): Promise<boolean> {
+	return getBattleStore().claimGuestId(claim, previousTokenId);
+}
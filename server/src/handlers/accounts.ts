@@ -0,0 +1,212 @@
+import { randomUUID } from "node:crypto";
+import type { Socket } from "socket.io";
+import {
+	createResumeToken,
+	createSessionToken,
+	readResumeTokenId,
+	verifySessionToken,
+} from "../../lib/session-token";
+import { BOT_USER_ID } from "../../services/bot-player";
+import {
+	claimGuestIdInDB,
+	createUserInDB,
+	getGuestClaimFromDB,
+	getUserFromDB,
+} from "../db/user-db";
+
+export const INVALID_SESSION_MESSAGE =
+	"Your session is invalid or has expired. Please log in again.";
+
+const MIN_USERNAME_LENGTH = 3;
+const MAX_USERNAME_LENGTH = 18;
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * An account's signed-in session, as returned to the client
+ */
+export interface AuthSession {
+	token: string;
+	userId: string;
+	displayName: string;
+}
+
+export type AuthResult =
+	| { session: AuthSession }
+	| { status: number; error: string };
+
+/**
+ * The account a socket authenticated as during the handshake
+ */
+export interface SocketAccount {
+	userId: string;
+	displayName: string;
+}
+
+/**
+ * Converts a username to its account's user ID: lowercase letters and digits only
+ */
+export function toUserId(username: string): string {
+	return username.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Creates the session returned to a client after registering or logging in
+ */
+function createSession(userId: string, displayName: string): AuthSession {
+	return {
+		token: createSessionToken(userId, displayName),
+		userId,
+		displayName,
+	};
+}
+
+/**
+ * Registers a new account and signs it in
+ */
+export async function registerAccount(
+	username: unknown,
+	password: unknown,
+): Promise<AuthResult> {
+	if (typeof username !== "string" || typeof password !== "string") {
+		return { status: 400, error: "A username and password are required." };
+	}
+
+	const displayName = username.trim();
+	const userId = toUserId(displayName);
+	if (
+		displayName.length > MAX_USERNAME_LENGTH ||
+		userId.length < MIN_USERNAME_LENGTH ||
+		!/^[A-Za-z0-9 ]+$/.test(displayName)
+	) {
+		return {
+			status: 400,
+			error: `Usernames must be ${MIN_USERNAME_LENGTH} to ${MAX_USERNAME_LENGTH} letters, digits or spaces.`,
+		};
+	}
+	if (userId === BOT_USER_ID) {
+		return { status: 400, error: "That username is reserved." };
+	}
+	if (password.length < MIN_PASSWORD_LENGTH) {
+		return {
+			status: 400,
+			error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`,
+		};
+	}
+
+	const created = await createUserInDB({
+		id: userId,
+		username: displayName,
+		password_hash: await Bun.password.hash(password),
+		created_at: new Date().toISOString(),
+	});
+	if (!created) {
+		return { status: 409, error: "That username is already taken." };
+	}
+
+	console.log(`[Auth] Registered account ${userId}.`);
+	return { session: createSession(userId, displayName) };
+}
+
+/**
+ * Checks an account's password and signs it in
+ */
+export async function logIn(
+	username: unknown,
+	password: unknown,
+): Promise<AuthResult> {
+	if (typeof username !== "string" || typeof password !== "string") {
+		return { status: 400, error: "A username and password are required." };
+	}
+
+	const user = await getUserFromDB(toUserId(username));
+	if (!user || !(await Bun.password.verify(password, user.password_hash))) {
+		return { status: 401, error: "Incorrect username or password." };
+	}
+
+	return { session: createSession(user.id, user.username) };
+}
+
+/**
+ * Socket.IO middleware that checks the session token sent in the handshake, if any.
+ * Sockets without a token connect as guests.
+ */
+export function authenticateSocket(
+	socket: Socket,
+	next: (error?: Error) => void,
+): void {
+	const token = socket.handshake.auth?.token;
+	if (!token) {
+		next();
+		return;
+	}
+
+	const payload = typeof token === "string" ? verifySessionToken(token) : null;
+	if (!payload) {
+		next(new Error(INVALID_SESSION_MESSAGE));
+		return;
+	}
+
+	const account: SocketAccount = {
+		userId: payload.sub,
+		displayName: payload.name,
+	};
+	socket.data.account = account;
+	next();
+}
+
+/**
+ * Gets the account a socket signed in as, or undefined for guests
+ */
+export function getSocketAccount(socket: Socket): SocketAccount | undefined {
+	return socket.data.account;
+}
+
+/**
+ * Issues a guest a fresh resume token when they identify, revoking their previous one.
+ * A guest user ID belongs to whoever first claimed it, so after that only the holder of its
+ * latest token gets a new one, and knowing someone's user ID doesn't yield a token for it.
+ * @returns The new token, or null if the guest couldn't prove the user ID is theirs. Signed-in
+ * users prove who they are with their session, so they don't need one.
+ */
+export async function issueResumeToken(
+	socket: Socket,
+	userId: string,
+	presentedToken: unknown,
+): Promise<string | null> {
+	if (getSocketAccount(socket)) return null;
+
+	const tokenId = randomUUID();
+	const claimed = await claimGuestIdInDB(
+		{
+			user_id: userId,
+			token_id: tokenId,
+			updated_at: new Date().toISOString(),
+		},
+		readResumeTokenId(presentedToken, userId),
+	);
+	if (!claimed) {
+		console.warn(
+			`[Auth] Socket ${socket.id} identified as ${userId} without the resume token last issued for it.`,
+		);
+		return null;
+	}
+	return createResumeToken(userId, tokenId);
+}
+
+/**
+ * Checks whether a socket has proven it owns a user ID, and so may take back its battle seats
+ * or session: signed-in accounts by their session, guests by the latest resume token issued for it
+ */
+export async function canClaimUserId(
+	socket: Socket,
+	userId: string,
+	resumeToken: unknown,
+): Promise<boolean> {
+	if (getSocketAccount(socket)?.userId === userId) return true;
+
+	const tokenId = readResumeTokenId(resumeToken, userId);
+	return (
+		tokenId !== null &&
+		(await getGuestClaimFromDB(userId))?.token_id === tokenId
+	);
+}
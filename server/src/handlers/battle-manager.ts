@@ -11,6 +11,8 @@ import {
 	updateBattleInDB,
 	convertDBBattleToRoom,
 } from "../db/battle-db";
+import { canClaimUserId } from "./accounts";
+import { clearTurnTimers, pauseTurnTimer } from "./battle-timer";
 
 const RECONNECTION_GRACE_PERIOD = 1 * 60 * 1000; // 1 minute
 
@@ -50,6 +52,8 @@ export function addBattleToCache(battleRoom: BattleRoom): void {
  * Removes a battle from the in-memory cache
  */
 export function removeBattleFromCache(battleId: string): void {
+	const battleRoom = activeBattles.get(battleId);
+	if (battleRoom) clearTurnTimers(battleRoom);
 	activeBattles.delete(battleId);
 }
 
@@ -60,8 +64,26 @@ export function getAllActiveBattles(): BattleRoom[] {
 	return Array.from(activeBattles.values());
 }
 
+/**
+ * Adds a spectator's socket to a battle
+ */
+export function addSpectator(battleRoom: BattleRoom, socketId: string): void {
+	if (!battleRoom.spectators.includes(socketId)) {
+		battleRoom.spectators.push(socketId);
+	}
+}
+
+/**
+ * Removes a spectator's socket from a battle
+ */
+export function removeSpectator(battleRoom: BattleRoom, socketId: string): void {
+	battleRoom.spectators = battleRoom.spectators.filter((id) => id !== socketId);
+}
+
 /**
  * Handles a player reconnecting to a battle
+ * @param resumeToken - The resume token the client was issued when it identified
+ * @returns Whether the socket was allowed to take the seat back
  */
 export async function handlePlayerReconnect(
 	socket: Socket,
@@ -70,8 +92,15 @@ export async function handlePlayerReconnect(
 	battleRoom: BattleRoom | undefined,
 	battleData: unknown,
 	isP1: boolean,
-): Promise<void> {
+	resumeToken: unknown,
+): Promise<boolean> {
 	const playerRole = isP1 ? "p1" : "p2";
+	if (!(await canClaimUserId(socket, clientInfo.userId, resumeToken))) {
+		console.warn(
+			`[Socket ${socket.id}] User ${clientInfo.userId} tried to reconnect to battle ${battleId} as ${playerRole} without a valid resume token.`,
+		);
+		return false;
+	}
 	console.log(
 		`[Socket ${socket.id}] User ${clientInfo.userId} reconnecting to battle ${battleId} as ${playerRole}.`,
 	);
@@ -99,6 +128,7 @@ export async function handlePlayerReconnect(
 			battleRoom.p2 = { socketId: socket.id, userId: clientInfo.userId };
 		}
 	}
+	return true;
 }
 
 /**
@@ -162,6 +192,15 @@ export async function handlePlayerDecision(
 	battleRoom: BattleRoom,
 	forceSwitch = false,
 ): Promise<void> {
+	// The player's time stops once they have decided
+	pauseTurnTimer(battleRoom, playerRole);
+	if (decision) {
+		battleRoom.acceptedDecisions = {
+			...battleRoom.acceptedDecisions,
+			[playerRole]: decision,
+		};
+	}
+
 	if (playerRole === "p1") {
 		battleRoom.p1Decision = decision;
 	} else {
@@ -171,6 +210,26 @@ export async function handlePlayerDecision(
 	// Update last activity timestamp
 	await updateBattleInDB(battleId, {});
 
+	if (battleRoom.vsAI) {
+		// The AI answers its own requests, so there is nothing to wait for
+		battleManager.makePlayerMove(battleId, playerRole, decision);
+		battleRoom.p1Decision = null;
+		battleRoom.p2Decision = null;
+		return;
+	}
+
+	if (battleRoom.awaitingResubmit?.[playerRole]) {
+		// The opponent's decision is already with the battle, which is waiting on this one
+		delete battleRoom.awaitingResubmit[playerRole];
+		battleManager.makePlayerMove(battleId, playerRole, decision);
+		if (playerRole === "p1") {
+			battleRoom.p1Decision = null;
+		} else {
+			battleRoom.p2Decision = null;
+		}
+		return;
+	}
+
 	if (forceSwitch) {
 		console.log(
 			`[Battle ${battleId}] Force switching due to forceSwitch flag.`,
@@ -205,3 +264,49 @@ export async function handlePlayerDecision(
 		);
 	}
 }
+
+/**
+ * Takes back a player's decision while their opponent is still deciding
+ * @returns Whether there was a decision left to take back; once both players have decided,
+ * their decisions are already with the battle
+ */
+export function cancelPlayerDecision(
+	battleRoom: BattleRoom,
+	playerRole: PlayerId,
+): boolean {
+	const decision =
+		playerRole === "p1" ? battleRoom.p1Decision : battleRoom.p2Decision;
+	// Choices made for a player who ran out of time stand
+	if (!decision || decision.choices[0]?.type === "default") return false;
+
+	if (playerRole === "p1") {
+		battleRoom.p1Decision = null;
+	} else {
+		battleRoom.p2Decision = null;
+	}
+	// The player may now decide differently for the same request
+	delete battleRoom.acceptedDecisions?.[playerRole];
+	return true;
+}
+
+/**
+ * Lets a player decide again after the battle refused their decision as invalid
+ */
+export function rejectPlayerDecision(
+	battleRoom: BattleRoom,
+	playerRole: PlayerId,
+): void {
+	if (playerRole === "p1") {
+		battleRoom.p1Decision = null;
+	} else {
+		battleRoom.p2Decision = null;
+	}
+	delete battleRoom.acceptedDecisions?.[playerRole];
+	// Against the AI, decisions go to the battle as soon as they are made anyway
+	if (!battleRoom.vsAI) {
+		battleRoom.awaitingResubmit = {
+			...battleRoom.awaitingResubmit,
+			[playerRole]: true,
+		};
+	}
+}
@@ -0,0 +1,123 @@
+import type { BattleRoom, PlayerId, TurnTimer, TurnTimerView } from "../types";
+
+// Time each player has for the whole battle
+export const TIMER_BANK_MS = 150 * 1000; // 2.5 minutes
+// Most time a player can spend on a single decision
+export const TIMER_TURN_LIMIT_MS = 60 * 1000; // 1 minute
+// Time given back to a player's bank for each decision made in time, up to the starting bank
+const TIMER_INCREMENT_MS = 10 * 1000; // 10 seconds
+
+/**
+ * Gets a player's timer, setting it up with a full bank the first time
+ */
+function getTurnTimer(battleRoom: BattleRoom, player: PlayerId): TurnTimer {
+	battleRoom.turnTimers ??= {};
+	let timer = battleRoom.turnTimers[player];
+	if (!timer) {
+		timer = { bankMs: TIMER_BANK_MS, startedAt: null, limitMs: 0 };
+		battleRoom.turnTimers[player] = timer;
+	}
+	return timer;
+}
+
+/**
+ * Runs a player's timer for the given time, taking it from their bank if it runs out
+ */
+function runTurnTimer(
+	timer: TurnTimer,
+	limitMs: number,
+	onTimeout: (outOfTime: boolean) => void,
+): void {
+	clearTimeout(timer.timeout);
+
+	timer.startedAt = Date.now();
+	timer.limitMs = limitMs;
+	timer.lastPause = undefined;
+	timer.timeout = setTimeout(() => {
+		timer.bankMs = Math.max(0, timer.bankMs - timer.limitMs);
+		timer.startedAt = null;
+		timer.timeout = undefined;
+		onTimeout(timer.bankMs === 0);
+	}, limitMs);
+}
+
+/**
+ * Starts timing a player's decision, allowing the turn limit or whatever is left in their bank
+ * @param onTimeout - Called when the time runs out, with whether the player's bank is now empty
+ */
+export function startTurnTimer(
+	battleRoom: BattleRoom,
+	player: PlayerId,
+	onTimeout: (outOfTime: boolean) => void,
+): void {
+	const timer = getTurnTimer(battleRoom, player);
+	runTurnTimer(timer, Math.min(timer.bankMs, TIMER_TURN_LIMIT_MS), onTimeout);
+}
+
+/**
+ * Stops timing a player once their decision arrives, taking the time spent from their bank
+ */
+export function pauseTurnTimer(battleRoom: BattleRoom, player: PlayerId): void {
+	const timer = battleRoom.turnTimers?.[player];
+	if (!timer || timer.startedAt === null) return;
+
+	clearTimeout(timer.timeout);
+	const spentMs = Date.now() - timer.startedAt;
+	const bankLeftMs = Math.max(0, timer.bankMs - spentMs);
+	timer.bankMs = Math.min(TIMER_BANK_MS, bankLeftMs + TIMER_INCREMENT_MS);
+	timer.lastPause = {
+		turnLeftMs: Math.max(0, timer.limitMs - spentMs),
+		creditedMs: timer.bankMs - bankLeftMs,
+	};
+	timer.startedAt = null;
+	timer.timeout = undefined;
+}
+
+/**
+ * Restarts a player's timer after they take back their decision or the battle refuses it, with
+ * only what was left of their turn and without the time the decision earned back
+ */
+export function resumeTurnTimer(
+	battleRoom: BattleRoom,
+	player: PlayerId,
+	onTimeout: (outOfTime: boolean) => void,
+): void {
+	const timer = battleRoom.turnTimers?.[player];
+	if (!timer?.lastPause || timer.startedAt !== null) return;
+
+	const { turnLeftMs, creditedMs } = timer.lastPause;
+	timer.bankMs = Math.max(0, timer.bankMs - creditedMs);
+	runTurnTimer(timer, Math.min(timer.bankMs, turnLeftMs), onTimeout);
+}
+
+/**
+ * Stops both players' timers for good, e.g. when the battle ends
+ */
+export function clearTurnTimers(battleRoom: BattleRoom): void {
+	for (const timer of Object.values(battleRoom.turnTimers ?? {})) {
+		clearTimeout(timer.timeout);
+		timer.startedAt = null;
+		timer.timeout = undefined;
+	}
+}
+
+/**
+ * Gets both players' timers as sent to clients
+ */
+export function getTurnTimerViews(
+	battleRoom: BattleRoom,
+): Record<PlayerId, TurnTimerView> {
+	const now = Date.now();
+	const getView = (player: PlayerId): TurnTimerView => {
+		const timer = battleRoom.turnTimers?.[player];
+		if (!timer) return { remainingMs: TIMER_BANK_MS, running: false };
+		if (timer.startedAt === null) {
+			return { remainingMs: timer.bankMs, running: false };
+		}
+		return {
+			remainingMs: Math.max(0, timer.limitMs - (now - timer.startedAt)),
+			running: true,
+		};
+	};
+	return { p1: getView("p1"), p2: getView("p2") };
+}
@@ -20,8 +20,12 @@ export function getClientInfo(socketId: string): ClientInfo | undefined {
 /**
  * Adds a client to the connected clients cache
  */
-export function addClient(socketId: string, userId: string): void {
-	connectedClients.set(socketId, { userId });
+export function addClient(
+	socketId: string,
+	userId: string,
+	displayName: string,
+): void {
+	connectedClients.set(socketId, { userId, displayName });
 }
 
 /**
@@ -0,0 +1,347 @@
+import type {
+	MoveDecision,
+	PlayerDecision,
+	PlayerRequest,
+	SlotDecision,
+} from "../../services/battle-types";
+import type { BattleRoom, PlayerId } from "../types";
+
+type ActiveRequest = NonNullable<PlayerRequest["active"]>[number];
+
+// Generation gimmicks a move decision can use, at most one per Pokémon
+const GIMMICKS = ["mega", "zmove", "dynamax", "terastallize"] as const;
+
+// Move targets the player picks when more than one Pokémon is active
+const CHOOSABLE_TARGETS = new Set([
+	"normal",
+	"any",
+	"adjacentAlly",
+	"adjacentAllyOrSelf",
+	"adjacentFoe",
+]);
+
+/**
+ * Outcome of checking a decision before it is passed on to the battle
+ */
+export type DecisionCheck =
+	| { status: "accept" }
+	// The same decision was already accepted, e.g. sent again after a reconnect
+	| { status: "retry" }
+	| { status: "reject"; message: string };
+
+/**
+ * Checks that a decision answers the player's current request, and hasn't been made already
+ * @param request - The request the player has to answer, or null if they have nothing to decide
+ */
+export function checkDecisionRqid(
+	battleRoom: BattleRoom,
+	player: PlayerId,
+	decision: PlayerDecision,
+	request: Readonly<PlayerRequest> | null,
+): DecisionCheck {
+	if (typeof decision.rqid !== "number") {
+		return {
+			status: "reject",
+			message:
+				"Your choice is missing its request ID. Please reload the battle.",
+		};
+	}
+
+	const accepted = battleRoom.acceptedDecisions?.[player];
+	if (accepted?.rqid === decision.rqid) {
+		if (JSON.stringify(accepted.choices) === JSON.stringify(decision.choices)) {
+			return { status: "retry" };
+		}
+		return {
+			status: "reject",
+			message: "You have already made your choice for this turn.",
+		};
+	}
+
+	if (!request || request.rqid !== decision.rqid) {
+		return {
+			status: "reject",
+			message:
+				"That choice was for an earlier turn. Please choose again for the current one.",
+		};
+	}
+
+	return { status: "accept" };
+}
+
+/**
+ * Checks that a decision is legal for the request it answers: the moves can be used on their
+ * targets, gimmicks are available, the switch targets can come in and the Pokémon switching
+ * out aren't trapped
+ */
+export function checkDecisionLegality(
+	decision: PlayerDecision,
+	request: Readonly<PlayerRequest>,
+): DecisionCheck {
+	const choices = decision.choices ?? [];
+
+	// Letting the simulator choose is always legal
+	if (choices.length === 1 && choices[0].type === "default") {
+		return { status: "accept" };
+	}
+	if (request.teamPreview) {
+		const problem =
+			choices.length === 1 && choices[0].type === "team"
+				? getTeamOrderProblem(request, choices[0].order)
+				: "Choose the order to send your team out in.";
+		return problem ? reject(problem) : { status: "accept" };
+	}
+	if (request.wait) {
+		return reject("There is nothing to choose right now.");
+	}
+
+	const slotCount = request.forceSwitch?.length ?? request.active?.length ?? 0;
+	if (choices.length !== slotCount) {
+		return reject("Choose exactly one action for each active Pokémon.");
+	}
+
+	for (const [slot, choice] of choices.entries()) {
+		const problem = getSlotProblem(
+			request,
+			slot,
+			choice,
+			choices.slice(0, slot),
+		);
+		if (problem) return reject(problem);
+	}
+
+	return { status: "accept" };
+}
+
+/**
+ * Creates a rejection with the given message
+ */
+function reject(message: string): DecisionCheck {
+	return { status: "reject", message };
+}
+
+/**
+ * Finds what makes the choice for one active slot illegal
+ * @param earlier - The choices made for the slots before this one
+ * @returns A message for the player, or null if the choice is legal
+ */
+function getSlotProblem(
+	request: Readonly<PlayerRequest>,
+	slot: number,
+	choice: SlotDecision,
+	earlier: readonly SlotDecision[],
+): string | null {
+	const switchingIn = new Set(
+		earlier.flatMap((earlierChoice) =>
+			earlierChoice.type === "switch" ? [earlierChoice.pokemonIndex] : [],
+		),
+	);
+	const team = request.side.pokemon;
+	const activeRequest = request.active?.[slot];
+	const mustSwitch = request.forceSwitch?.[slot] ?? false;
+
+	switch (choice.type) {
+		case "move": {
+			if (request.forceSwitch) {
+				return "You have to switch, not use a move.";
+			}
+			if (!activeRequest || isFainted(team[slot])) {
+				return "That Pokémon can't use a move right now.";
+			}
+			const move = activeRequest.moves[choice.moveIndex - 1];
+			if (!Number.isInteger(choice.moveIndex) || !move) {
+				return "That move doesn't exist.";
+			}
+			const gimmickProblem = getGimmickProblem(activeRequest, choice, earlier);
+			if (gimmickProblem) return gimmickProblem;
+
+			// A Dynamaxed Pokémon uses the Max Move in its move's place
+			const maxMove =
+				choice.dynamax || (activeRequest.maxMoves && !activeRequest.canDynamax)
+					? activeRequest.maxMoves?.maxMoves[choice.moveIndex - 1]
+					: undefined;
+			if (move.disabled || maxMove?.disabled) {
+				return `${move.move} is disabled.`;
+			}
+			if (move.pp === 0) {
+				return `${move.move} has no PP left.`;
+			}
+
+			const targetType = choice.zmove
+				? activeRequest.canZMove?.[choice.moveIndex - 1]?.target
+				: (maxMove?.target ?? move.target);
+			return getTargetProblem(
+				targetType,
+				choice.targetIndex ?? 0,
+				slot,
+				request.active?.length ?? 1,
+			);
+		}
+		case "switch": {
+			if (request.forceSwitch ? !mustSwitch : !activeRequest) {
+				return "That Pokémon can't switch out right now.";
+			}
+			if (activeRequest?.trapped) {
+				return "That Pokémon is trapped and can't switch out.";
+			}
+			const target = team[choice.pokemonIndex - 1];
+			if (!Number.isInteger(choice.pokemonIndex) || !target) {
+				return "That Pokémon isn't on your team.";
+			}
+			// Revival Blessing has the player pick a fainted Pokémon instead
+			if (team[slot]?.reviving) {
+				return isFainted(target) ? null : "Choose a fainted Pokémon to revive.";
+			}
+			if (target.active) {
+				return "That Pokémon is already in battle.";
+			}
+			if (isFainted(target)) {
+				return "That Pokémon has fainted.";
+			}
+			if (switchingIn.has(choice.pokemonIndex)) {
+				return "That Pokémon is already switching in.";
+			}
+			return null;
+		}
+		case "pass": {
+			// A slot may only pass when it has nothing to do
+			if (request.forceSwitch) {
+				const canSwitchIn = team.some(
+					(pokemon, index) =>
+						!pokemon.active &&
+						!isFainted(pokemon) &&
+						!switchingIn.has(index + 1),
+				);
+				return mustSwitch && canSwitchIn
+					? "You have to choose a Pokémon to switch in."
+					: null;
+			}
+			return activeRequest && !isFainted(team[slot])
+				? "You have to choose an action for every active Pokémon."
+				: null;
+		}
+		default:
+			return "That choice isn't recognised.";
+	}
+}
+
+/**
+ * Finds what makes a team preview order illegal
+ * @param order - 1-based team indices, leads first
+ */
+function getTeamOrderProblem(
+	request: Readonly<PlayerRequest>,
+	order: unknown,
+): string | null {
+	const teamSize = request.side.pokemon.length;
+	if (!Array.isArray(order) || order.length === 0) {
+		return "Choose at least one Pokémon to lead with.";
+	}
+	if (order.length > (request.maxChosenTeamSize ?? teamSize)) {
+		return "That's more Pokémon than can be brought to this battle.";
+	}
+	for (const [index, position] of order.entries()) {
+		if (!Number.isInteger(position) || position < 1 || position > teamSize) {
+			return "That Pokémon isn't on your team.";
+		}
+		if (order.indexOf(position) !== index) {
+			return "Each Pokémon can only be picked once.";
+		}
+	}
+	return null;
+}
+
+/**
+ * Finds what makes a move's gimmick unavailable, if it uses one
+ * @param earlier - The choices made for the slots before this one, which may have used it already
+ */
+function getGimmickProblem(
+	activeRequest: ActiveRequest,
+	choice: MoveDecision,
+	earlier: readonly SlotDecision[],
+): string | null {
+	const gimmick = GIMMICKS.find((option) => choice[option]);
+	if (!gimmick) return null;
+
+	if (
+		earlier.some(
+			(earlierChoice) =>
+				earlierChoice.type === "move" && earlierChoice[gimmick],
+		)
+	) {
+		return "Only one of your Pokémon can do that each turn.";
+	}
+
+	switch (gimmick) {
+		case "mega":
+			return activeRequest.canMegaEvo
+				? null
+				: "That Pokémon can't Mega Evolve.";
+		case "zmove":
+			return activeRequest.canZMove?.[choice.moveIndex - 1]
+				? null
+				: "That move can't be used as a Z-Move.";
+		case "dynamax":
+			// Already Dynamaxed Pokémon keep using Max Moves
+			return activeRequest.canDynamax || activeRequest.maxMoves
+				? null
+				: "That Pokémon can't Dynamax.";
+		case "terastallize":
+			return activeRequest.canTerastallize
+				? null
+				: "That Pokémon can't Terastallize.";
+	}
+}
+
+/**
+ * Finds what makes a move's target illegal, following the simulator's targeting rules
+ * @param targetType - The move's target type, or undefined if the request doesn't say (e.g. a locked move)
+ * @param targetIndex - The chosen target: positive for foes, negative for allies, 0 for none
+ * @param activeCount - How many Pokémon each side has in battle
+ */
+function getTargetProblem(
+	targetType: string | undefined,
+	targetIndex: number,
+	slot: number,
+	activeCount: number,
+): string | null {
+	if (!targetType) return null;
+	if (!CHOOSABLE_TARGETS.has(targetType)) {
+		return targetIndex ? "That move's target can't be chosen." : null;
+	}
+	if (!targetIndex) {
+		return activeCount >= 2 ? "Choose a target for that move." : null;
+	}
+	if (!Number.isInteger(targetIndex) || Math.abs(targetIndex) > activeCount) {
+		return "That target isn't in battle.";
+	}
+
+	// Allies' locations are negative, with this slot's own at -(slot + 1)
+	const ownLocation = -(slot + 1);
+	const isSelf = targetIndex === ownLocation;
+	const isFoe = targetIndex > 0;
+	const isAdjacent = isFoe
+		? Math.abs(-(activeCount + 1 - targetIndex) - ownLocation) <= 1
+		: Math.abs(targetIndex - ownLocation) === 1;
+
+	const isValid =
+		targetType === "normal"
+			? isAdjacent
+			: targetType === "adjacentAlly"
+				? isAdjacent && !isFoe
+				: targetType === "adjacentAllyOrSelf"
+					? (isAdjacent && !isFoe) || isSelf
+					: targetType === "adjacentFoe"
+						? isAdjacent && isFoe
+						: !isSelf; // "any"
+	return isValid ? null : "That move can't target that Pokémon.";
+}
+
+/**
+ * Whether a Pokémon from a request has fainted
+ */
+function isFainted(
+	pokemon: PlayerRequest["side"]["pokemon"][number] | undefined,
+): boolean {
+	return !pokemon || pokemon.condition.endsWith(" fnt");
+}
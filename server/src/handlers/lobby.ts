@@ -0,0 +1,61 @@
+import type { Server } from "socket.io";
+import { Dex } from "@pkmn/sim";
+import { getBattlesByStatus } from "../db/battle-db";
+import type { BattleRecord, Lobby, LobbyBattle } from "../types";
+import { getClientInfo } from "./client-manager";
+
+// Most battles shown in each section of the lobby
+const LOBBY_SIZE = 50;
+
+/**
+ * Converts a battle record to its lobby listing
+ */
+function toLobbyBattle(battle: BattleRecord): LobbyBattle {
+	return {
+		id: battle.id,
+		format: battle.format,
+		formatName: Dex.formats.get(battle.format).name || battle.format,
+		p1Name: battle.p1_name,
+		p2Name: battle.p2_name,
+		createdAt: battle.created_at,
+	};
+}
+
+/**
+ * Gets the battles that are open to join and the ones that can be watched
+ */
+export async function getLobby(): Promise<Lobby> {
+	const battles = await getBattlesByStatus(
+		["waiting", "active"],
+		LOBBY_SIZE * 2,
+	);
+
+	return {
+		// A battle is only open while its creator is connected to play it
+		waiting: battles
+			.filter(
+				(battle) =>
+					battle.status === "waiting" &&
+					battle.p2_user_id === null &&
+					!!battle.p1_socket_id &&
+					!!getClientInfo(battle.p1_socket_id),
+			)
+			.slice(0, LOBBY_SIZE)
+			.map(toLobbyBattle),
+		active: battles
+			.filter((battle) => battle.status === "active")
+			.slice(0, LOBBY_SIZE)
+			.map(toLobbyBattle),
+	};
+}
+
+/**
+ * Sends the current lobby to every connected client
+ */
+export async function broadcastLobby(io: Server): Promise<void> {
+	try {
+		io.emit("server:lobby_update", await getLobby());
+	} catch (error) {
+		console.error("[Lobby] Error broadcasting lobby update:", error);
+	}
+}
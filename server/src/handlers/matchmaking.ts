@@ -0,0 +1,99 @@
+import type { QueueEntry } from "../types";
+
+// Rating used for players who have no rating in a format yet
+export const DEFAULT_RATING = 1500;
+
+// Largest rating gap accepted for a new entry, which widens the longer a player waits
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH = 50; // per 10 seconds waited
+
+// Players waiting for a match, by socket ID
+const queue = new Map<string, QueueEntry>();
+
+/**
+ * Gets the largest rating gap an entry will accept at the given time
+ */
+function getRatingWindow(entry: QueueEntry, now: number): number {
+	const secondsWaited = (now - entry.joinedAt) / 1000;
+	return (
+		BASE_RATING_WINDOW + Math.floor(secondsWaited / 10) * RATING_WINDOW_GROWTH
+	);
+}
+
+/**
+ * Checks whether two queue entries can be paired with each other
+ */
+function canPair(a: QueueEntry, b: QueueEntry, now: number): boolean {
+	if (a.format !== b.format || a.userId === b.userId) return false;
+
+	// Both players have to accept the gap, so the one who joined last sets the limit
+	const gap = Math.abs(a.rating - b.rating);
+	return gap <= getRatingWindow(a, now) && gap <= getRatingWindow(b, now);
+}
+
+/**
+ * Adds a player to the queue, replacing any entry they already had
+ */
+export function joinQueue(entry: QueueEntry): void {
+	queue.set(entry.socketId, entry);
+}
+
+/**
+ * Removes a player from the queue
+ * @returns Whether the player was queued
+ */
+export function leaveQueue(socketId: string): boolean {
+	return queue.delete(socketId);
+}
+
+/**
+ * Pairs up waiting players, closest ratings first, and takes them out of the queue
+ */
+export function takeMatches(now = Date.now()): [QueueEntry, QueueEntry][] {
+	const waiting = [...queue.values()].sort((a, b) => a.joinedAt - b.joinedAt);
+	const matches: [QueueEntry, QueueEntry][] = [];
+	const paired = new Set<string>();
+
+	for (const entry of waiting) {
+		if (paired.has(entry.socketId)) continue;
+
+		let opponent: QueueEntry | undefined;
+		for (const candidate of waiting) {
+			if (
+				candidate === entry ||
+				paired.has(candidate.socketId) ||
+				!canPair(entry, candidate, now)
+			)
+				continue;
+			if (
+				!opponent ||
+				Math.abs(candidate.rating - entry.rating) <
+					Math.abs(opponent.rating - entry.rating)
+			) {
+				opponent = candidate;
+			}
+		}
+
+		if (opponent) {
+			paired.add(entry.socketId);
+			paired.add(opponent.socketId);
+			queue.delete(entry.socketId);
+			queue.delete(opponent.socketId);
+			// The player who has waited longest goes first
+			matches.push([entry, opponent]);
+		}
+	}
+
+	return matches;
+}
+
+/**
+ * Gets how many players are waiting in each format
+ */
+export function getQueueSizes(): Record<string, number> {
+	const sizes: Record<string, number> = {};
+	for (const entry of queue.values()) {
+		sizes[entry.format] = (sizes[entry.format] ?? 0) + 1;
+	}
+	return sizes;
+}
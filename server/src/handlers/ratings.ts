@@ -0,0 +1,79 @@
+import { INITIAL_GLICKO2_RATING, rateGame } from "../../lib/glicko2";
+import { BOT_USER_ID } from "../../services/bot-player";
+import type { PlayerId } from "../../services/battle-types";
+import { getRatingFromDB, saveRatingInDB } from "../db/rating-db";
+import type { BattleRecord, RatingRecord } from "../types";
+
+/**
+ * Gets a user's rating in a format, starting them at the initial rating if they have none
+ */
+export async function getRating(
+	userId: string,
+	format: string,
+): Promise<RatingRecord> {
+	return (
+		(await getRatingFromDB(userId, format)) ?? {
+			user_id: userId,
+			format,
+			...INITIAL_GLICKO2_RATING,
+			wins: 0,
+			losses: 0,
+			updated_at: new Date().toISOString(),
+		}
+	);
+}
+
+/**
+ * Rates a player after a win or loss against an opponent
+ */
+function applyResult(
+	player: RatingRecord,
+	opponent: RatingRecord,
+	won: boolean,
+	now: string,
+): RatingRecord {
+	return {
+		...player,
+		...rateGame(player, opponent, won ? 1 : 0),
+		wins: player.wins + (won ? 1 : 0),
+		losses: player.losses + (won ? 0 : 1),
+		updated_at: now,
+	};
+}
+
+/**
+ * Updates both players' ratings in the battle's format after a decisive result
+ * @param battle - The finished battle
+ * @param winner - The side that won, including by forfeit
+ * @returns The players' new ratings, or null if the battle is not rated
+ */
+export async function recordRatedResult(
+	battle: BattleRecord,
+	winner: PlayerId,
+): Promise<Record<PlayerId, RatingRecord> | null> {
+	// Only battles between two people are rated
+	if (!battle.p2_user_id || battle.p2_user_id === BOT_USER_ID) return null;
+
+	const [p1Rating, p2Rating] = await Promise.all([
+		getRating(battle.p1_user_id, battle.format),
+		getRating(battle.p2_user_id, battle.format),
+	]);
+	const now = new Date().toISOString();
+
+	const updated = {
+		p1: applyResult(p1Rating, p2Rating, winner === "p1", now),
+		p2: applyResult(p2Rating, p1Rating, winner === "p2", now),
+	};
+	await Promise.all([saveRatingInDB(updated.p1), saveRatingInDB(updated.p2)]);
+
+	console.log(
+		`[Battle ${battle.id}] Ratings updated: ${[updated.p1, updated.p2]
+			.map(
+				(rating) =>
+					`${rating.user_id} ${Math.round(rating.rating)} (±${Math.round(rating.deviation)})`,
+			)
+			.join(", ")}`,
+	);
+
+	return updated;
+}
@@ -0,0 +1,69 @@
+import { Dex, extractChannelMessages } from "@pkmn/sim";
+import type { BattleRecord, BattleReplay } from "../types";
+
+// Loads Showdown's replay player, which reads the log embedded in the page
+const REPLAY_EMBED_URL = "https://play.pokemonshowdown.com/js/replay-embed.js";
+
+/**
+ * Builds a replay from a finished battle's record
+ * @param log - The battle's recorded protocol log
+ * @returns The replay, or null if the battle has no recorded protocol log
+ */
+export function createReplay(
+	battle: BattleRecord,
+	log: string[],
+): BattleReplay | null {
+	if (log.length === 0) return null;
+
+	return {
+		id: battle.id,
+		format: battle.format,
+		formatName: Dex.formats.get(battle.format).name || battle.format,
+		p1Name: battle.p1_name,
+		p2Name: battle.p2_name ?? "Player 2",
+		winner: battle.winner,
+		createdAt: battle.created_at,
+		log,
+	};
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+function escapeHTML(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders a replay as a standalone HTML file in the same layout as Showdown's saved replays
+ */
+export function renderReplayHTML(replay: BattleReplay): string {
+	const title = `${replay.formatName}: ${replay.p1Name} vs. ${replay.p2Name}`;
+	// The file shows the omniscient view; the log sits in a script tag, so it must not close the tag early
+	const log = extractChannelMessages(replay.log.join("\n"), [-1])[-1]
+		.join("\n")
+		.replace(/<\//g, "<\\/");
+
+	return `<!DOCTYPE html>
+<meta charset="utf-8" />
+<!-- version 1 -->
+<title>${escapeHTML(title)} - Replay</title>
+<style>
+html,body {font-family:Verdana, sans-serif;font-size:10pt;margin:0;padding:0;}body{padding:12px 0;} .battle-log {font-family:Verdana, sans-serif;font-size:10pt;} .battle-log-inline {border:1px solid #AAAAAA;background:#EEF2F5;color:black;max-width:640px;margin:0 auto 80px;padding-bottom:5px;} .battle-log .inner {padding:4px 8px 0px 8px;} .battle-log h2 {margin:0.5em -8px;padding:4px 8px;border:1px solid #AAAAAA;background:#E0E7EA;border-left:0;border-right:0;font-size:13pt;} .spacer {margin-top:0.5em;} .subtle {color:#3A4A66;}
+</style>
+<div class="wrapper replay-wrapper" style="max-width:1180px;margin:0 auto">
+<input type="hidden" name="replayid" value="${escapeHTML(replay.id)}" />
+<div class="battle"></div><div class="battle-log"></div><div class="replay-controls"></div><div class="replay-controls-2"></div>
+<h1 style="font-weight:normal;text-align:center"><strong>${escapeHTML(replay.formatName)}</strong><br />${escapeHTML(replay.p1Name)} vs. ${escapeHTML(replay.p2Name)}</h1>
+<script type="text/plain" class="battle-log-data">${log}</script>
+</div>
+<script>
+let daily = Math.floor(Date.now()/1000/60/60/24);document.write('<script src="${REPLAY_EMBED_URL}?version'+daily+'"></'+'script>');
+</script>
+`;
+}
@@ -3,9 +3,19 @@ import http from "node:http";
 import { Server } from "socket.io";
 import type { AddressInfo } from "node:net";
 import { setupSocketHandlers } from "./socket/handlers";
-import { getRecentBattles } from "./db/battle-db";
+import {
+	getBattleFromDB,
+	getProtocolLogFromDB,
+	getRecentBattles,
+} from "./db/battle-db";
 import { getClientDetails, getConnectedClientCount } from "./handlers/client-manager";
 import { getAllActiveBattles } from "./handlers/battle-manager";
+import { createReplay, renderReplayHTML } from "./handlers/replay";
+import { getQueueSizes } from "./handlers/matchmaking";
+import { getLobby } from "./handlers/lobby";
+import { getLeaderboardFromDB, getRatingFromDB } from "./db/rating-db";
+import { getUserFromDB } from "./db/user-db";
+import { logIn, registerAccount } from "./handlers/accounts";
 
 // --- Express App Setup ---
 const app = express();
@@ -22,6 +32,20 @@ const io = new Server(server, {
 
 const PORT = process.env.PORT || 8080;
 
+// Let the web client call the HTTP routes from its own origin, as it does the socket
+app.use((req, res, next) => {
+	res.header("Access-Control-Allow-Origin", process.env.CLIENT_ORIGIN || "*");
+	res.header("Access-Control-Allow-Methods", "GET, POST");
+	res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+	if (req.method === "OPTIONS") {
+		res.sendStatus(204);
+		return;
+	}
+	next();
+});
+
+app.use(express.json());
+
 // Set up Socket.IO handlers
 setupSocketHandlers(io);
 
@@ -29,17 +53,137 @@ setupSocketHandlers(io);
 app.get("/", async (req, res) => {
 	// Get active battles from database
 	const dbBattles = await getRecentBattles(50);
-	
+	const activeBattles = getAllActiveBattles();
+
+	// Only summaries: rooms and records hold teams, decisions and the omniscient log
 	res.status(200).json({
 		message: "Pokemon Battle WebSocket Server is active.",
 		connectedClients: getConnectedClientCount(),
-		activeBattles: getAllActiveBattles().length,
+		activeBattles: activeBattles.length,
+		queuedPlayers: getQueueSizes(),
 		clientDetails: getClientDetails(),
-		battleDetails: getAllActiveBattles(),
-		recentBattles: dbBattles || [],
+		battleDetails: activeBattles.map((battle) => ({
+			battleId: battle.battleId,
+			format: battle.format,
+			started: battle.started,
+			vsAI: battle.vsAI ?? false,
+			p1UserId: battle.p1?.userId ?? null,
+			p2UserId: battle.p2?.userId ?? null,
+			spectators: battle.spectators.length,
+		})),
+		recentBattles: (dbBattles || []).map((battle) => ({
+			id: battle.id,
+			format: battle.format,
+			p1Name: battle.p1_name,
+			p2Name: battle.p2_name,
+			status: battle.status,
+			winner: battle.winner,
+			createdAt: battle.created_at,
+		})),
 	});
 });
 
+// Battles open to join and battles in progress that can be watched
+app.get("/lobby", async (req, res) => {
+	res.status(200).json(await getLobby());
+});
+
+// Highest rated players in a format
+app.get("/leaderboard/:format", async (req, res) => {
+	const limit = Math.min(Number(req.query.limit) || 50, 100);
+	const ratings = await getLeaderboardFromDB(req.params.format, limit);
+	const entries = [];
+	for (const rating of ratings) {
+		// Accounts are listed by username, guests by their user ID
+		const user = await getUserFromDB(rating.user_id);
+		entries.push({
+			userId: rating.user_id,
+			displayName: user?.username ?? rating.user_id,
+			rating: Math.round(rating.rating),
+			deviation: Math.round(rating.deviation),
+			wins: rating.wins,
+			losses: rating.losses,
+		});
+	}
+	res.status(200).json(entries);
+});
+
+// Ratings of a battle's players in its format, leaving out players who have never played it rated
+app.get("/battles/:id/ratings", async (req, res) => {
+	const battle = await getBattleFromDB(req.params.id);
+	if (!battle) {
+		res.status(404).json({ error: "Battle not found." });
+		return;
+	}
+
+	const ratings: Partial<Record<"p1" | "p2", number>> = {};
+	const players = [
+		["p1", battle.p1_user_id],
+		["p2", battle.p2_user_id],
+	] as const;
+	for (const [side, userId] of players) {
+		if (!userId) continue;
+		const rating = await getRatingFromDB(userId, battle.format);
+		if (rating) ratings[side] = Math.round(rating.rating);
+	}
+	res.status(200).json(ratings);
+});
+
+// Create an account and sign in to it
+app.post("/auth/register", async (req, res) => {
+	const result = await registerAccount(req.body?.username, req.body?.password);
+	if ("error" in result) {
+		res.status(result.status).json({ error: result.error });
+		return;
+	}
+	res.status(201).json(result.session);
+});
+
+// Sign in to an existing account
+app.post("/auth/login", async (req, res) => {
+	const result = await logIn(req.body?.username, req.body?.password);
+	if ("error" in result) {
+		res.status(result.status).json({ error: result.error });
+		return;
+	}
+	res.status(200).json(result.session);
+});
+
+// Replay of a finished battle, as JSON or with ?format=html as a Showdown replay file
+app.get("/battles/:id/replay", async (req, res) => {
+	const battle = await getBattleFromDB(req.params.id);
+	if (!battle) {
+		res.status(404).json({ error: "Battle not found." });
+		return;
+	}
+
+	// The log reveals both teams, so only admins can read it before the battle is over
+	const adminToken = process.env.ADMIN_TOKEN;
+	const isAdmin =
+		!!adminToken && req.get("authorization") === `Bearer ${adminToken}`;
+	if (battle.status !== "finished" && !isAdmin) {
+		res.status(409).json({ error: "Battle is still in progress." });
+		return;
+	}
+
+	const replay = createReplay(battle, await getProtocolLogFromDB(battle.id));
+	if (!replay) {
+		res.status(404).json({ error: "No replay was recorded for this battle." });
+		return;
+	}
+
+	if (req.query.format === "html") {
+		res
+			.status(200)
+			.type("html")
+			.attachment(`${replay.format}-${replay.id}.html`)
+			.send(renderReplayHTML(replay));
+		return;
+	}
+
+	res.status(200).json(replay);
+});
+
 // --- Start the HTTP Server ---
 server.listen(PORT, () => {
 	const address = server.address() as AddressInfo;
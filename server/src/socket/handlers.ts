@@ -1,9 +1,21 @@
 import type { Server, Socket } from "socket.io";
 import { randomUUID } from "node:crypto";
+import { PRNG, type PRNGSeed, extractChannelMessages } from "@pkmn/sim";
+import type { BattleEngine } from "../../services/battle-engine";
 import { battleManager } from "../../services/battle-manager-instance";
+import { BOT_PLAYER_NAME, BOT_USER_ID } from "../../services/bot-player";
+import { getBotStrategy } from "../../services/bot-strategies";
+import { parseTeamPaste } from "../../services/team-parser";
+import {
+	formatRequiresTeam,
+	isValidFormat,
+	validateTeam,
+} from "../../services/team-validator";
 import type {
 	BattleOptions,
+	BotDifficulty,
 	PlayerDecision,
+	PlayerId,
 } from "../../services/battle-types";
 import {
 	getClientInfo,
@@ -20,56 +32,581 @@ import {
 	clearDisconnectTimer,
 	setupDisconnectTimer,
 	handlePlayerDecision,
+	cancelPlayerDecision,
+	rejectPlayerDecision,
+	addSpectator,
+	removeSpectator,
 } from "../handlers/battle-manager";
 import {
 	createBattleInDB,
 	updateBattleInDB,
 	deleteBattleFromDB,
 	getBattleFromDB,
+	appendProtocolLinesInDB,
+	getProtocolLogFromDB,
 } from "../db/battle-db";
-import type { BattleRoom } from "../types";
+import { getUserFromDB } from "../db/user-db";
+import {
+	joinQueue,
+	leaveQueue,
+	takeMatches,
+} from "../handlers/matchmaking";
+import { broadcastLobby } from "../handlers/lobby";
+import {
+	checkDecisionLegality,
+	checkDecisionRqid,
+} from "../handlers/decision-checks";
+import {
+	clearTurnTimers,
+	getTurnTimerViews,
+	resumeTurnTimer,
+	startTurnTimer,
+} from "../handlers/battle-timer";
+import {
+	authenticateSocket,
+	canClaimUserId,
+	getSocketAccount,
+	issueResumeToken,
+	toUserId,
+} from "../handlers/accounts";
+import {
+	getRating,
+	recordRatedResult,
+} from "../handlers/ratings";
+import type {
+	BattleRecord,
+	BattleRoom,
+	ClientInfo,
+	QueueEntry,
+} from "../types";
+
+const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "normal", "hard"];
+// How often waiting players are checked for matches, since rating windows widen over time
+const MATCHMAKING_INTERVAL_MS = 5000;
+
+/**
+ * Forwards a battle engine's events to the players and keeps the database in sync
+ */
+function wireBattleEvents(
+	io: Server,
+	battleId: string,
+	battleEngine: BattleEngine,
+): void {
+	// Lines of the protocol log sent to the database so far
+	let recordedProtocolLines = 0;
+
+	// Wire up protocol events, sending each player and spectator only their own view of the battle
+	battleEngine.on("protocol", async ({ type, lines }) => {
+		// The omniscient view is only recorded for replays, including history replayed during a restore
+		if (type === "omniscient") {
+			const log = battleEngine.getProtocolLog();
+			const startIndex = recordedProtocolLines;
+			recordedProtocolLines = log.length;
+			await appendProtocolLinesInDB(
+				battleId,
+				startIndex,
+				log.slice(startIndex),
+			);
+			return;
+		}
+
+		const battleRoom = await getBattleRoom(battleId);
+		if (!battleRoom?.started) return;
+
+		if (type === "spectator") {
+			if (battleRoom.spectators.length > 0) {
+				io.to(battleRoom.spectators).emit("server:protocol", {
+					battleId,
+					lines,
+				});
+			}
+		} else {
+			const targetSocketId =
+				type === "p1"
+					? battleRoom.p1?.socketId
+					: battleRoom.p2?.socketId;
+			if (targetSocketId) {
+				io.to(targetSocketId).emit("server:protocol", {
+					battleId,
+					lines,
+				});
+			}
+		}
+	});
+
+	// Wire up request events; the request itself reaches the player with the rest of their protocol
+	battleEngine.on("request", async ({ player, request }) => {
+		const battleRoom = await getBattleRoom(battleId);
+		if (!battleRoom?.started) return;
+
+		// Save request to database
+		await updateBattleInDB(battleId, {
+			[player === "p1" ? "p1_last_request" : "p2_last_request"]:
+				request,
+		});
+
+		// Time every decision between two people; there is nothing to decide while waiting
+		if (battleRoom.vsAI || request.wait) return;
+		startTurnTimer(battleRoom, player, (outOfTime) => {
+			void handleTurnTimeout(io, battleId, player, outOfTime);
+		});
+		emitTimerUpdate(io, battleId, battleRoom);
+	});
+
+	// Wire up refused choices; the error itself reaches the player with the rest of their protocol
+	battleEngine.on("choiceRejected", async ({ player, message }) => {
+		const battleRoom = await getBattleRoom(battleId);
+		if (!battleRoom?.started) return;
+
+		console.warn(
+			`[Battle ${battleId}] The battle refused ${player}'s decision: ${message}`,
+		);
+		rejectPlayerDecision(battleRoom, player);
+		resumeTurnTimer(battleRoom, player, (outOfTime) => {
+			void handleTurnTimeout(io, battleId, player, outOfTime);
+		});
+		emitTimerUpdate(io, battleId, battleRoom);
+	});
+
+	// Wire up battle end
+	battleEngine.on("battleEnd", async ({ winner, winningSide }) => {
+		const battleRoom = await getBattleRoom(battleId);
+		if (!battleRoom) return;
+
+		io.to(battleId).emit("server:battle_end", { battleId, winner });
+		console.log(`[Battle ${battleId}] Battle ended. Winner: ${winner}`);
+
+		battleRoom.started = false;
+		clearTurnTimers(battleRoom);
+
+		// Update database
+		await updateBattleInDB(battleId, {
+			status: "finished",
+			winner: winner,
+		});
+		void broadcastLobby(io);
+
+		// Ties and battles that end in an error are not rated
+		const battleData = await getBattleFromDB(battleId);
+		if (battleData && winningSide) {
+			await rateBattle(io, battleData, winningSide);
+		}
+
+		// Cleanup handled by manager's timeout
+	});
+
+	// Wire up battle start
+	battleEngine.on("battleStart", async ({ initialLines }) => {
+		console.log(
+			`[Battle ${battleId}] Battle started. Saving initial protocol lines.`,
+		);
+
+		// Save initial protocol lines to database
+		await updateBattleInDB(battleId, {
+			initial_protocol_lines: initialLines,
+		});
+	});
+
+	// Persist the input log so the battle can be rebuilt after a restart
+	battleEngine.on("inputLog", async ({ lines }) => {
+		await updateBattleInDB(battleId, { input_log: lines });
+	});
+}
+
+/**
+ * Sends both players' remaining time to everyone in a battle
+ */
+function emitTimerUpdate(
+	io: Server,
+	battleId: string,
+	battleRoom: BattleRoom,
+): void {
+	io.to(battleId).emit("server:timer_update", {
+		battleId,
+		timers: getTurnTimerViews(battleRoom),
+	});
+}
+
+/**
+ * Decides for a player who ran out of time for their turn, or forfeits them once their bank is empty
+ */
+async function handleTurnTimeout(
+	io: Server,
+	battleId: string,
+	player: PlayerId,
+	outOfTime: boolean,
+): Promise<void> {
+	const battleRoom = await getBattleRoom(battleId);
+	const battleEngine = battleManager.getBattle(battleId);
+	if (!battleRoom?.started || !battleEngine) return;
+
+	if (outOfTime) {
+		// The battle ends through the engine, which finishes, rates and announces it as usual
+		console.log(`[Battle ${battleId}] ${player} ran out of time and forfeits.`);
+		battleEngine.forfeit(player);
+		return;
+	}
+
+	console.log(
+		`[Battle ${battleId}] ${player} ran out of time for this turn. Choosing for them.`,
+	);
+	const request =
+		player === "p1" ? battleEngine.getP1Request() : battleEngine.getP2Request();
+	try {
+		await handlePlayerDecision(
+			battleId,
+			player,
+			{ choices: [{ type: "default" }], rqid: request?.rqid },
+			battleRoom,
+			Boolean(request?.forceSwitch),
+		);
+	} catch (error) {
+		console.error(
+			`[Battle ${battleId}] Error choosing for ${player} after their time ran out:`,
+			error,
+		);
+	}
+	emitTimerUpdate(io, battleId, battleRoom);
+}
+
+/**
+ * Rebuilds a battle engine lost in a restart by replaying its recorded input log
+ */
+async function restoreBattle(
+	io: Server,
+	battleData: BattleRecord,
+	battleRoom: BattleRoom,
+	inputLog: string[],
+): Promise<BattleEngine> {
+	const battleEngine = recreateBattleEngine(io, battleData, battleRoom);
+
+	// Keep the replayed history from being broadcast as if it were new
+	battleRoom.started = false;
+	try {
+		await battleEngine.restoreBattle(inputLog);
+	} finally {
+		battleRoom.started = true;
+	}
+
+	// The replayed requests weren't timed, so time the ones still waiting for a decision now
+	if (!battleRoom.vsAI) {
+		for (const player of ["p1", "p2"] as const) {
+			const request =
+				player === "p1"
+					? battleEngine.getP1Request()
+					: battleEngine.getP2Request();
+			if (!request || request.wait || battleEngine.hasChosen(player)) {
+				continue;
+			}
+			startTurnTimer(battleRoom, player, (outOfTime) => {
+				void handleTurnTimeout(io, battleData.id, player, outOfTime);
+			});
+		}
+		emitTimerUpdate(io, battleData.id, battleRoom);
+	}
+
+	return battleEngine;
+}
+
+/**
+ * Creates the engine for a battle recorded in the database, e.g. one that was still waiting for
+ * its players when the server restarted
+ */
+function recreateBattleEngine(
+	io: Server,
+	battleData: BattleRecord,
+	battleRoom: BattleRoom,
+): BattleEngine {
+	const battleEngine = battleManager.createBattle(battleData.id, {
+		format: battleData.format,
+		p1Name: battleData.p1_name,
+		p2Name: battleData.p2_name ?? "Player 2",
+		seed: (battleData.seed as PRNGSeed | null) ?? undefined,
+		// The difficulty isn't recorded, so a restored AI opponent plays at the default level
+		p2Strategy: battleRoom.vsAI ? getBotStrategy("normal") : undefined,
+		debug: process.env.NODE_ENV === "development",
+	});
+	wireBattleEvents(io, battleData.id, battleEngine);
+	return battleEngine;
+}
+
+/**
+ * Rates a decided battle and tells everyone watching it the players' new ratings
+ */
+async function rateBattle(
+	io: Server,
+	battle: BattleRecord,
+	winner: PlayerId,
+): Promise<void> {
+	const ratings = await recordRatedResult(battle, winner);
+	if (!ratings) return;
+
+	io.to(battle.id).emit("server:rating_update", {
+		battleId: battle.id,
+		ratings: {
+			p1: Math.round(ratings.p1.rating),
+			p2: Math.round(ratings.p2.rating),
+		},
+	});
+}
+
+/**
+ * Creates and starts a battle between two matched players, who are both assigned from the start
+ */
+async function startMatchedBattle(
+	io: Server,
+	p1: QueueEntry,
+	p2: QueueEntry,
+): Promise<void> {
+	const battleId = randomUUID();
+	const format = p1.format;
+	const seed = PRNG.generateSeed();
+
+	console.log(
+		`[Battle ${battleId}] Matched ${p1.userId} (${p1.rating}) with ${p2.userId} (${p2.rating}) (Format: ${format}, Seed: ${seed})`,
+	);
+
+	try {
+		const success = await createBattleInDB(
+			battleId,
+			format,
+			p1.userId,
+			p1.socketId,
+			p1.displayName,
+			p2.displayName,
+			seed,
+			p1.team ?? null,
+		);
+		if (!success) {
+			throw new Error("Database error: Failed to create battle");
+		}
+		await updateBattleInDB(battleId, {
+			p2_user_id: p2.userId,
+			p2_socket_id: p2.socketId,
+			status: "active",
+			p2_team: p2.team ?? null,
+		});
+
+		const battleEngine = battleManager.createBattle(battleId, {
+			format,
+			p1Name: p1.displayName,
+			p2Name: p2.displayName,
+			seed,
+			debug: process.env.NODE_ENV === "development",
+		});
+		wireBattleEvents(io, battleId, battleEngine);
+
+		const battleRoom: BattleRoom = {
+			battleId,
+			p1: { socketId: p1.socketId, userId: p1.userId },
+			p2: { socketId: p2.socketId, userId: p2.userId },
+			spectators: [],
+			format,
+			started: true,
+			p1Decision: null,
+			p2Decision: null,
+			p1Team: p1.team,
+			p2Team: p2.team,
+		};
+		addBattleToCache(battleRoom);
+
+		for (const [player, opponent, playerRole] of [
+			[p1, p2, "p1"],
+			[p2, p1, "p2"],
+		] as const) {
+			updateClientInfo(player.socketId, {
+				currentBattleId: battleId,
+				playerRole,
+			});
+			io.in(player.socketId).socketsJoin(battleId);
+			io.to(player.socketId).emit("server:battle_joined", {
+				battleId,
+				playerRole,
+				format,
+				opponentUserId: opponent.userId,
+			});
+		}
+
+		// Anything sent before the players' battle pages load is caught up when they join
+		battleManager.startBattle(battleId, p1.team, p2.team);
+		void broadcastLobby(io);
+	} catch (error: unknown) {
+		console.error(`[Battle ${battleId}] Error starting matched battle:`, error);
+		io.to([p1.socketId, p2.socketId]).emit("server:error", {
+			message: `Failed to start matched battle: ${error instanceof Error ? error.message : String(error)}`,
+		});
+
+		battleManager.removeBattle(battleId);
+		removeBattleFromCache(battleId);
+		await deleteBattleFromDB(battleId);
+		for (const player of [p1, p2]) {
+			updateClientInfo(player.socketId, {
+				currentBattleId: undefined,
+				playerRole: undefined,
+			});
+		}
+	}
+}
+
+/**
+ * Starts a battle for every pair of queued players that can be matched
+ */
+function runMatchmaking(io: Server): void {
+	for (const [p1, p2] of takeMatches()) {
+		void startMatchedBattle(io, p1, p2);
+	}
+}
+
+/**
+ * Gets the public view of a battle's protocol log so far, for catching up spectators
+ * @param recordedLog - The log recorded in the database, used when the battle has no engine
+ */
+function getSpectatorHistory(
+	battleId: string,
+	recordedLog: string[],
+): string[] {
+	const engine = battleManager.getBattle(battleId);
+	if (engine) return engine.getPerspectiveLog("spectator");
+
+	return extractChannelMessages(recordedLog.join("\n"), [0])[0];
+}
+
+/**
+ * Moves a user's session from their old socket to a newly identified one, such as a second tab.
+ * The old socket is told it was replaced and detached before it disconnects, so its battle seat
+ * passes to the new socket without starting the disconnect-forfeit timer.
+ */
+async function takeOverSession(
+	io: Server,
+	socket: Socket,
+	oldSocketId: string,
+	oldClientInfo: ClientInfo,
+	resumeToken: unknown,
+): Promise<void> {
+	console.log(
+		`[Socket ${socket.id}] Taking over User ID ${oldClientInfo.userId}'s session from Socket ${oldSocketId}.`,
+	);
+
+	removeClient(oldSocketId);
+	leaveQueue(oldSocketId);
+	if (oldClientInfo.spectatingBattleId) {
+		const spectatedRoom = await getBattleRoom(oldClientInfo.spectatingBattleId);
+		if (spectatedRoom) removeSpectator(spectatedRoom, oldSocketId);
+	}
+
+	const oldSocket = io.sockets.sockets.get(oldSocketId);
+	if (oldSocket) {
+		oldSocket.emit("server:session_replaced", {
+			message:
+				"You opened this session somewhere else, so it was closed here. Reload to continue here instead.",
+		});
+		oldSocket.disconnect(true);
+	}
+
+	const battleId = oldClientInfo.currentBattleId;
+	const clientInfo = getClientInfo(socket.id);
+	if (!battleId || !oldClientInfo.playerRole || !clientInfo) return;
+
+	const battleRoom = await getBattleRoom(battleId);
+	await handlePlayerReconnect(
+		socket,
+		clientInfo,
+		battleId,
+		battleRoom,
+		null,
+		oldClientInfo.playerRole === "p1",
+		resumeToken,
+	);
+}
 
 /**
  * Sets up socket event handlers
  */
 export function setupSocketHandlers(io: Server): void {
+	io.use(authenticateSocket);
+	setInterval(() => runMatchmaking(io), MATCHMAKING_INTERVAL_MS);
+
 	io.on("connection", (socket: Socket) => {
 		console.log(`[Socket ${socket.id}] Client connected.`);
 
 		// --- Client Identification ---
-		socket.on("client:identify", (data: { userId: string }) => {
-			const userId = data?.userId?.trim();
-			const existingClient = getClientByUserId(userId);
+		socket.on(
+			"client:identify",
+			async (data: { userId: string; resumeToken?: string }) => {
+				const userId = data?.userId?.trim();
+				const existingClient = getClientByUserId(userId);
 
-			if (!userId || typeof userId !== "string") {
-				socket.emit("server:error", { message: "Invalid user ID provided." });
-				return;
-			}
+				if (!userId || typeof userId !== "string") {
+					socket.emit("server:error", { message: "Invalid user ID provided." });
+					return;
+				}
 
-			if (existingClient) {
-				console.warn(
-					`[Socket ${socket.id}] User ID ${userId} is already connected (Socket ${existingClient[0]}). Disconnecting new connection.`,
+				// Signed-in sockets can only be their own account, and guests can't claim an account's ID
+				const account = getSocketAccount(socket);
+				if (account && account.userId !== userId) {
+					socket.emit("server:error", {
+						message: "User ID does not match your session.",
+					});
+					return;
+				}
+				// Compare by account ID, so "Alice" can't pass as the account registered as "alice"
+				if (!account && (await getUserFromDB(toUserId(userId)))) {
+					socket.emit("server:error", {
+						message: "That user ID belongs to an account. Log in to use it.",
+					});
+					return;
+				}
+				const displayName = account?.displayName ?? userId;
+
+				// Only the user ID's owner can take over its session from another socket
+				if (
+					existingClient &&
+					!(await canClaimUserId(socket, userId, data.resumeToken))
+				) {
+					console.warn(
+						`[Socket ${socket.id}] User ID ${userId} is already connected (Socket ${existingClient[0]}). Disconnecting new connection.`,
+					);
+					socket.emit("server:error", {
+						message: `User ID ${userId} is already connected. Please close other tabs or wait.`,
+					});
+					socket.disconnect(true);
+					return;
+				}
+
+				addClient(socket.id, userId, displayName);
+				if (existingClient) {
+					await takeOverSession(
+						io,
+						socket,
+						existingClient[0],
+						existingClient[1],
+						data.resumeToken,
+					);
+				}
+				console.log(
+					`[Socket ${socket.id}] Identified as User ID: ${userId}${account ? " (signed in)" : ""}`,
 				);
-				socket.emit("server:error", {
-					message: `User ID ${userId} is already connected. Please close other tabs or wait.`,
+				socket.emit("server:identified", {
+					socketId: socket.id,
+					userId: userId,
+					displayName,
+					resumeToken: await issueResumeToken(socket, userId, data.resumeToken),
+					message: `Welcome, ${displayName}!`,
 				});
-				socket.disconnect(true);
-				return;
-			}
-
-			addClient(socket.id, userId);
-			console.log(`[Socket ${socket.id}] Identified as User ID: ${userId}`);
-			socket.emit("server:identified", {
-				socketId: socket.id,
-				userId: userId,
-				message: `Welcome, ${userId}!`,
-			});
-		});
+			},
+		);
 
 		// --- Battle Creation ---
 		socket.on(
 			"client:create_battle",
-			async (data: { format: string; userId: string }) => {
+			async (data: {
+				format: string;
+				userId: string;
+				// A team paste; checked, since anything can arrive over the socket
+				team?: unknown;
+				opponent?: "human" | "ai";
+				difficulty?: BotDifficulty;
+			}) => {
 				const clientInfo = getClientInfo(socket.id);
 				if (!clientInfo || clientInfo.userId !== data.userId) {
 					socket.emit("server:error", {
@@ -86,11 +623,55 @@ export function setupSocketHandlers(io: Server): void {
 
 				const battleId = randomUUID();
 				const format = data.format || "gen3randombattle";
-				const p1Name = clientInfo.userId;
-				const p2Name = "Waiting for Player...";
+
+				if (!isValidFormat(format)) {
+					socket.emit("server:error", {
+						message: `Unknown or unsupported format: ${format}`,
+					});
+					return;
+				}
+				if (data.team !== undefined && typeof data.team !== "string") {
+					socket.emit("server:error", {
+						message: "The submitted team must be a team paste.",
+					});
+					return;
+				}
+				if (!data.team && formatRequiresTeam(format)) {
+					socket.emit("server:error", {
+						message: "This format requires you to bring a team.",
+					});
+					return;
+				}
+
+				let p1Team: string | undefined;
+				if (data.team) {
+					p1Team = parseTeamPaste(data.team) ?? undefined;
+					if (!p1Team) {
+						socket.emit("server:error", {
+							message: "Could not parse the submitted team paste.",
+						});
+						return;
+					}
+
+					const problems = validateTeam(p1Team, format);
+					if (problems) {
+						socket.emit("server:team_invalid", { format, problems });
+						return;
+					}
+				}
+				const vsAI = data.opponent === "ai";
+				const botDifficulty: BotDifficulty =
+					data.difficulty && BOT_DIFFICULTIES.includes(data.difficulty)
+						? data.difficulty
+						: "normal";
+				const p1Name = clientInfo.displayName;
+				const p2Name = vsAI ? BOT_PLAYER_NAME : "Waiting for Player...";
+
+				// Recorded with the battle so it can be reproduced exactly
+				const seed = PRNG.generateSeed();
 
 				console.log(
-					`[Socket ${socket.id}] User ${clientInfo.userId} creating battle ${battleId} (Format: ${format})`,
+					`[Socket ${socket.id}] User ${clientInfo.userId} creating battle ${battleId} (Format: ${format}, Seed: ${seed})`,
 				);
 
 				try {
@@ -102,16 +683,30 @@ export function setupSocketHandlers(io: Server): void {
 						socket.id,
 						p1Name,
 						p2Name,
+						seed,
+						p1Team ?? null,
 					);
 
 					if (!success) {
 						throw new Error("Database error: Failed to create battle");
 					}
 
+					// The AI mirrors the player's team in formats without a team generator
+					const p2Team =
+						vsAI && formatRequiresTeam(format) ? p1Team : undefined;
+					if (vsAI) {
+						await updateBattleInDB(battleId, {
+							p2_user_id: BOT_USER_ID,
+							p2_team: p2Team ?? null,
+						});
+					}
+
 					const battleOptions: BattleOptions = {
 						format,
 						p1Name,
 						p2Name,
+						seed,
+						p2Strategy: vsAI ? getBotStrategy(botDifficulty) : undefined,
 						debug: process.env.NODE_ENV === "development",
 					};
 
@@ -120,92 +715,20 @@ export function setupSocketHandlers(io: Server): void {
 						battleOptions,
 					);
 
-					// Wire up protocol events
-					battleEngine.on("protocol", async ({ type, lines }) => {
-						const battleRoom = await getBattleRoom(battleId);
-						if (!battleRoom?.started) return;
-
-						if (type === "omniscient") {
-							io.to(battleId).emit("server:protocol", { battleId, lines });
-						} else {
-							const targetSocketId =
-								type === "p1"
-									? battleRoom.p1?.socketId
-									: battleRoom.p2?.socketId;
-							if (targetSocketId) {
-								io.to(targetSocketId).emit("server:protocol", {
-									battleId,
-									lines,
-								});
-							}
-						}
-					});
-
-					// Wire up request events
-					battleEngine.on("request", async ({ player, request }) => {
-						const battleRoom = await getBattleRoom(battleId);
-						if (!battleRoom?.started) return;
-
-						// Save request to database
-						await updateBattleInDB(battleId, {
-							[player === "p1" ? "p1_last_request" : "p2_last_request"]:
-								request,
-						});
-
-						const targetSocketId =
-							player === "p1"
-								? battleRoom.p1?.socketId
-								: battleRoom.p2?.socketId;
-						if (targetSocketId) {
-							const requestLine = `|request|${JSON.stringify(request)}`;
-							io.to(targetSocketId).emit("server:protocol", {
-								battleId,
-								lines: [requestLine],
-							});
-							console.log(`[Battle ${battleId}] Sent request to ${player}`);
-						}
-					});
-
-					// Wire up battle end
-					battleEngine.on("battleEnd", async ({ winner }) => {
-						const battleRoom = await getBattleRoom(battleId);
-						if (!battleRoom) return;
-
-						io.to(battleId).emit("server:battle_end", { battleId, winner });
-						console.log(`[Battle ${battleId}] Battle ended. Winner: ${winner}`);
-
-						battleRoom.started = false;
-
-						// Update database
-						await updateBattleInDB(battleId, {
-							status: "finished",
-							winner: winner,
-						});
-
-						// Cleanup handled by manager's timeout
-					});
-
-					// Wire up battle start
-					battleEngine.on("battleStart", async ({ battleId, initialLines }) => {
-						console.log(
-							`[Battle ${battleId}] Battle started. Saving initial protocol lines.`,
-						);
-
-						// Save initial protocol lines to database
-						await updateBattleInDB(battleId, {
-							initial_protocol_lines: initialLines,
-						});
-					});
+					wireBattleEvents(io, battleId, battleEngine);
 
 					const newBattleRoom: BattleRoom = {
 						battleId,
 						p1: { socketId: socket.id, userId: clientInfo.userId },
-						p2: null,
+						p2: vsAI ? { socketId: "", userId: BOT_USER_ID } : null,
 						spectators: [],
 						format,
 						started: false,
 						p1Decision: null,
 						p2Decision: null,
+						vsAI,
+						p1Team,
+						p2Team,
 					};
 					addBattleToCache(newBattleRoom);
 
@@ -213,10 +736,21 @@ export function setupSocketHandlers(io: Server): void {
 						currentBattleId: battleId,
 						playerRole: "p1",
 					});
+					// A player in a battle can't also be matched from the queue
+					leaveQueue(socket.id);
 
 					socket.join(battleId);
-					socket.emit("server:battle_created", { battleId, playerRole: "p1" });
-					console.log(`[Battle ${battleId}] Waiting for P2 to join.`);
+					socket.emit("server:battle_created", {
+						battleId,
+						playerRole: "p1",
+						format,
+					});
+					console.log(
+						vsAI
+							? `[Battle ${battleId}] Waiting for P1 to load the battle against the computer.`
+							: `[Battle ${battleId}] Waiting for P2 to join.`,
+					);
+					void broadcastLobby(io);
 				} catch (error: unknown) {
 					console.error(`[Socket ${socket.id}] Error creating battle:`, error);
 					socket.emit("server:error", {
@@ -233,7 +767,13 @@ export function setupSocketHandlers(io: Server): void {
 		// --- Battle Join ---
 		socket.on(
 			"client:join_battle",
-			async (data: { battleId: string; userId: string }) => {
+			async (data: {
+				battleId: string;
+				userId: string;
+				// A team paste; checked, since anything can arrive over the socket
+				team?: unknown;
+				resumeToken?: string;
+			}) => {
 				const clientInfo = getClientInfo(socket.id);
 				const battleId = data.battleId;
 
@@ -267,15 +807,27 @@ export function setupSocketHandlers(io: Server): void {
 						`[Socket ${socket.id}] User ${clientInfo.userId} reconnecting to battle ${battleId} as ${isP1 ? "p1" : "p2"}.`,
 					);
 
+					// Players matched from the queue are already assigned this socket, so they were never away
+					const wasAway =
+						(isP1 ? battleRoom?.p1 : battleRoom?.p2)?.socketId !== socket.id;
+
 					// Update client info & join socket room
-					await handlePlayerReconnect(
+					const resumed = await handlePlayerReconnect(
 						socket,
 						clientInfo,
 						battleId,
 						battleRoom,
 						battleData,
 						isP1,
+						data.resumeToken,
 					);
+					if (!resumed) {
+						socket.emit("server:error", {
+							message:
+								"Could not verify that this seat is yours. Reconnect from the browser you joined the battle with.",
+						});
+						return;
+					}
 
 					// Clear any pending disconnect timer
 					if (battleRoom) {
@@ -287,12 +839,12 @@ export function setupSocketHandlers(io: Server): void {
 						? battleRoom?.p2?.socketId
 						: battleRoom?.p1?.socketId;
 
-					if (opponentSocketId) {
+					if (opponentSocketId && wasAway) {
 						// Notify opponent more explicitly about reconnection and send it to the entire room
 						io.to(opponentSocketId).emit("server:opponent_reconnected", {
 							battleId,
 							userId: clientInfo.userId,
-							message: `Your opponent (${clientInfo.userId}) has reconnected.`,
+							message: `Your opponent (${clientInfo.displayName}) has reconnected.`,
 							temporary: false, // Indicate this is a permanent reconnection
 						});
 					}
@@ -301,40 +853,100 @@ export function setupSocketHandlers(io: Server): void {
 					socket.emit("server:battle_joined", {
 						battleId,
 						playerRole: isP1 ? "p1" : "p2",
+						format: battleData.format,
 						opponentUserId: isP1
 							? battleData.p2_user_id
 							: battleData.p1_user_id,
 						reconnected: true,
 					});
+					if (battleRoom?.turnTimers) {
+						socket.emit("server:timer_update", {
+							battleId,
+							timers: getTurnTimerViews(battleRoom),
+						});
+					}
 
-					// Get battle engine or recreate if needed
-					const engine = battleManager.getBattle(battleId);
+					// Battles against the AI start as soon as the creator has loaded the battle page
+					if (
+						isP1 &&
+						battleRoom?.vsAI &&
+						!battleRoom.started &&
+						battleData.status === "waiting"
+					) {
+						console.log(
+							`[Battle ${battleId}] P1 ready. Starting battle against the computer.`,
+						);
+						battleRoom.started = true;
+						await updateBattleInDB(battleId, { status: "active" });
+						void broadcastLobby(io);
+						if (!battleManager.getBattle(battleId)) {
+							recreateBattleEngine(io, battleData, battleRoom);
+						}
+						try {
+							battleManager.startBattle(
+								battleId,
+								battleRoom.p1Team,
+								battleRoom.p2Team,
+							);
+						} catch (error) {
+							console.error(
+								`[Battle ${battleId}] Error starting battle simulation:`,
+								error,
+							);
+							socket.emit("server:error", {
+								message: `Failed to start battle: ${error}`,
+							});
+							battleManager.removeBattle(battleId);
+							removeBattleFromCache(battleId);
+							await updateBattleInDB(battleId, { status: "finished" });
+							updateClientInfo(socket.id, {
+								currentBattleId: undefined,
+								playerRole: undefined,
+							});
+						}
+						return;
+					}
+
+					// Get battle engine, or rebuild it from the input log after a restart
+					let engine = battleManager.getBattle(battleId);
+					if (
+						!engine &&
+						battleRoom &&
+						battleData.status === "active" &&
+						battleData.input_log?.length
+					) {
+						try {
+							engine = await restoreBattle(
+								io,
+								battleData,
+								battleRoom,
+								battleData.input_log,
+							);
+							console.log(
+								`[Battle ${battleId}] Restored from input log (${battleData.input_log.length} lines).`,
+							);
+						} catch (error) {
+							console.error(
+								`[Battle ${battleId}] Error restoring battle from input log:`,
+								error,
+							);
+							battleManager.removeBattle(battleId);
+							engine = undefined;
+						}
+					}
 
 					if (engine && battleData.status === "active") {
-						// Send initial protocol lines first if available
-						if (
-							battleData.initial_protocol_lines &&
-							battleData.initial_protocol_lines.length > 0
-						) {
+						// Catch the player up on everything they have seen of the battle so far
+						const role = isP1 ? "p1" : "p2";
+						const history = engine.getPerspectiveLog(role);
+						if (history.length > 0) {
 							console.log(
-								`[Battle ${battleId}] Sending initial protocol data to reconnecting player ${isP1 ? "p1" : "p2"}`,
+								`[Battle ${battleId}] Sending ${history.length} protocol lines to reconnecting player ${role}`,
 							);
 							io.to(socket.id).emit("server:protocol", {
 								battleId,
-								lines: battleData.initial_protocol_lines,
+								lines: history,
 							});
-						} else {
-							// Fallback if no initial lines in DB - get from engine if available
-							const initialLines = engine.getInitialProtocolLines();
-							if (initialLines.length > 0) {
-								console.log(
-									`[Battle ${battleId}] Sending engine's initial protocol data to reconnecting player ${isP1 ? "p1" : "p2"}`,
-								);
-								io.to(socket.id).emit("server:protocol", {
-									battleId,
-									lines: initialLines,
-								});
-							}
 						}
 
 						// Battle is active, send current game state
@@ -366,8 +978,8 @@ export function setupSocketHandlers(io: Server): void {
 							battleRoom.started = true;
 						}
 					} else if (battleData.status === "active" && !engine) {
-						// Battle is marked active in DB but engine not found
-						// This is a case where server restarted but battle data exists
+						// Battle is marked active in DB but engine not found and could not be
+						// rebuilt, e.g. it was started before input logs were recorded
 
 						socket.emit("server:error", {
 							message:
@@ -418,15 +1030,21 @@ export function setupSocketHandlers(io: Server): void {
 					return;
 				}
 
-				if (battleData.status !== "waiting") {
+				if (battleData.status === "finished") {
 					socket.emit("server:error", {
 						message: "This battle is no longer accepting new players.",
 					});
 					return;
 				}
 
-				if (battleRoom.p2 !== null || battleData.p2_user_id !== null) {
-					socket.emit("server:error", {
+				// Let the client offer to watch instead
+				if (
+					battleData.status !== "waiting" ||
+					battleRoom.p2 !== null ||
+					battleData.p2_user_id !== null
+				) {
+					socket.emit("server:battle_full", {
+						battleId,
 						message: "This battle is already full.",
 					});
 					return;
@@ -442,38 +1060,81 @@ export function setupSocketHandlers(io: Server): void {
 					return;
 				}
 
+				if (data.team !== undefined && typeof data.team !== "string") {
+					socket.emit("server:error", {
+						message: "The submitted team must be a team paste.",
+					});
+					return;
+				}
+				if (!data.team && formatRequiresTeam(battleRoom.format)) {
+					socket.emit("server:error", {
+						message: "This format requires you to bring a team.",
+					});
+					return;
+				}
+
+				let p2Team: string | undefined;
+				if (data.team) {
+					p2Team = parseTeamPaste(data.team) ?? undefined;
+					if (!p2Team) {
+						socket.emit("server:error", {
+							message: "Could not parse the submitted team paste.",
+						});
+						return;
+					}
+
+					const problems = validateTeam(p2Team, battleRoom.format);
+					if (problems) {
+						socket.emit("server:team_invalid", {
+							battleId,
+							format: battleRoom.format,
+							problems,
+						});
+						return;
+					}
+				}
+
 				// Assign P2
 				console.log(
 					`[Socket ${socket.id}] User ${clientInfo.userId} joining battle ${battleId} as P2.`,
 				);
 				battleRoom.p2 = { socketId: socket.id, userId: clientInfo.userId };
+				battleRoom.p2Team = p2Team;
 				updateClientInfo(socket.id, {
 					currentBattleId: battleId,
 					playerRole: "p2",
 				});
+				leaveQueue(socket.id);
 
 				// Update database
 				await updateBattleInDB(battleId, {
 					p2_user_id: clientInfo.userId,
 					p2_socket_id: socket.id,
-					p2_name: clientInfo.userId,
+					p2_name: clientInfo.displayName,
 					status: "active",
+					p2_team: p2Team ?? null,
 				});
+				void broadcastLobby(io);
 
-				const engine = battleManager.getBattle(battleId);
-				engine?.updatePlayerName("p2", clientInfo.userId);
+				// The engine of a battle created before a restart has to be made again
+				const engine =
+					battleManager.getBattle(battleId) ??
+					recreateBattleEngine(io, battleData, battleRoom);
+				engine.updatePlayerName("p2", clientInfo.displayName);
 				socket.join(battleId);
 
 				// Notify players
 				socket.emit("server:battle_joined", {
 					battleId,
 					playerRole: "p2",
+					format: battleRoom.format,
 					opponentUserId: battleRoom.p1?.userId,
 				});
 				if (battleRoom.p1) {
 					io.to(battleRoom.p1.socketId).emit("server:battle_joined", {
 						battleId,
 						playerRole: "p1",
+						format: battleRoom.format,
 						opponentUserId: clientInfo.userId,
 					});
 				}
@@ -484,7 +1145,11 @@ export function setupSocketHandlers(io: Server): void {
 				);
 				battleRoom.started = true;
 				try {
-					battleManager.startBattle(battleId);
+					battleManager.startBattle(
+						battleId,
+						battleRoom.p1Team,
+						battleRoom.p2Team,
+					);
 				} catch (error) {
 					console.error(
 						`[Battle ${battleId}] Error starting battle simulation:`,
@@ -520,11 +1185,180 @@ export function setupSocketHandlers(io: Server): void {
 			},
 		);
 
+		// --- Matchmaking Queue ---
+		socket.on(
+			"client:queue_join",
+			async (data: { format: string; userId: string; team?: unknown }) => {
+				const clientInfo = getClientInfo(socket.id);
+				if (!clientInfo || clientInfo.userId !== data.userId) {
+					socket.emit("server:error", {
+						message: "Identify first or user ID mismatch.",
+					});
+					return;
+				}
+				if (clientInfo.currentBattleId) {
+					socket.emit("server:error", {
+						message: "You are already in a battle.",
+					});
+					return;
+				}
+
+				const format = data.format;
+				if (!isValidFormat(format)) {
+					socket.emit("server:error", {
+						message: `Unknown or unsupported format: ${format}`,
+					});
+					return;
+				}
+				if (data.team !== undefined && typeof data.team !== "string") {
+					socket.emit("server:error", {
+						message: "The submitted team must be a team paste.",
+					});
+					return;
+				}
+				if (!data.team && formatRequiresTeam(format)) {
+					socket.emit("server:error", {
+						message: "This format requires you to bring a team.",
+					});
+					return;
+				}
+
+				let team: string | undefined;
+				if (data.team) {
+					team = parseTeamPaste(data.team) ?? undefined;
+					if (!team) {
+						socket.emit("server:error", {
+							message: "Could not parse the submitted team paste.",
+						});
+						return;
+					}
+
+					const problems = validateTeam(team, format);
+					if (problems) {
+						socket.emit("server:team_invalid", { format, problems });
+						return;
+					}
+				}
+
+				joinQueue({
+					socketId: socket.id,
+					userId: clientInfo.userId,
+					displayName: clientInfo.displayName,
+					format,
+					team,
+					rating: (await getRating(clientInfo.userId, format)).rating,
+					joinedAt: Date.now(),
+				});
+				console.log(
+					`[Socket ${socket.id}] User ${clientInfo.userId} queued for ${format}.`,
+				);
+				socket.emit("server:queue_joined", { format });
+
+				runMatchmaking(io);
+			},
+		);
+
+		socket.on("client:queue_leave", () => {
+			if (leaveQueue(socket.id)) {
+				console.log(`[Socket ${socket.id}] Left the matchmaking queue.`);
+			}
+			socket.emit("server:queue_left", {});
+		});
+
+		// --- Spectate Battle ---
+		socket.on("client:spectate", async (data: { battleId: string }) => {
+			const clientInfo = getClientInfo(socket.id);
+			const battleId = data?.battleId;
+
+			if (!clientInfo) {
+				socket.emit("server:error", { message: "Identify first." });
+				return;
+			}
+
+			const battleData = await getBattleFromDB(battleId);
+			const battleRoom = await getBattleRoom(battleId);
+			if (!battleData || !battleRoom) {
+				socket.emit("server:error", {
+					message: `Battle with ID ${battleId} not found.`,
+				});
+				return;
+			}
+
+			if (
+				battleData.p1_user_id === clientInfo.userId ||
+				battleData.p2_user_id === clientInfo.userId
+			) {
+				socket.emit("server:error", {
+					message: "You are a player in this battle. Join it instead.",
+				});
+				return;
+			}
+
+			if (battleData.status === "finished") {
+				socket.emit("server:battle_end", {
+					battleId,
+					winner: battleData.winner,
+					message: "This battle has already ended.",
+				});
+				return;
+			}
+
+			// Stop watching any other battle first
+			const previousBattleId = clientInfo.spectatingBattleId;
+			if (previousBattleId && previousBattleId !== battleId) {
+				const previousRoom = await getBattleRoom(previousBattleId);
+				if (previousRoom) removeSpectator(previousRoom, socket.id);
+				socket.leave(previousBattleId);
+			}
+
+			console.log(
+				`[Socket ${socket.id}] User ${clientInfo.userId} spectating battle ${battleId}.`,
+			);
+			addSpectator(battleRoom, socket.id);
+			updateClientInfo(socket.id, { spectatingBattleId: battleId });
+
+			// A battle without an engine adds nothing to its log, so its recorded log can be read first
+			const recordedLog = battleManager.getBattle(battleId)
+				? []
+				: await getProtocolLogFromDB(battleId);
+
+			// Join the room and take the history in the same tick, so no chunk is missed or sent twice
+			socket.join(battleId);
+			const history = getSpectatorHistory(battleId, recordedLog);
+
+			socket.emit("server:spectate_joined", {
+				battleId,
+				format: battleData.format,
+				p1Name: battleData.p1_name,
+				p2Name: battleData.p2_name,
+			});
+			if (history.length > 0) {
+				socket.emit("server:protocol", { battleId, lines: history });
+			}
+			if (battleRoom.turnTimers) {
+				socket.emit("server:timer_update", {
+					battleId,
+					timers: getTurnTimerViews(battleRoom),
+				});
+			}
+		});
+
 		// --- Leave Battle ---
 		socket.on("client:leave_battle", async (data: { battleId: string }) => {
 			const clientInfo = getClientInfo(socket.id);
 			const battleId = data.battleId;
 
+			if (clientInfo?.spectatingBattleId === battleId) {
+				const battleRoom = await getBattleRoom(battleId);
+				if (battleRoom) removeSpectator(battleRoom, socket.id);
+				socket.leave(battleId);
+				updateClientInfo(socket.id, { spectatingBattleId: undefined });
+				console.log(
+					`[Socket ${socket.id}] User ${clientInfo.userId} stopped spectating battle ${battleId}.`,
+				);
+				return;
+			}
+
 			if (!clientInfo || clientInfo.currentBattleId !== battleId) {
 				console.warn(
 					`[Socket ${socket.id}] Attempted to leave battle ${battleId} but not in it.`,
@@ -567,7 +1401,7 @@ export function setupSocketHandlers(io: Server): void {
 				if (opponentSocketId) {
 					io.to(opponentSocketId).emit("server:opponent_disconnected", {
 						battleId: battleId,
-						message: `Your opponent (${clientInfo.userId}) left the battle.`,
+						message: `Your opponent (${clientInfo.displayName}) left the battle.`,
 						temporary: false, // This is a permanent leave, not a temporary disconnect
 					});
 					const opponentInfo = getClientInfo(opponentSocketId);
@@ -585,14 +1419,30 @@ export function setupSocketHandlers(io: Server): void {
 						removeBattleFromCache(battleId);
 
 						// Update database
+						const winner = leavingRole === "p1" ? "p2" : "p1";
 						await updateBattleInDB(battleId, {
 							status: "finished",
-							winner: leavingRole === "p1" ? "p2" : "p1",
+							winner,
 						});
+
+						// Leaving a battle in progress counts as a loss
+						const battleData = await getBattleFromDB(battleId);
+						if (battleData) await rateBattle(io, battleData, winner);
 					}
 				}
 
-				if (!battleRoom.p1 && !battleRoom.p2) {
+				if (battleRoom.vsAI && leavingRole === "p1") {
+					console.log(
+						`[Battle ${battleId}] Player left the battle against the computer. Removing battle.`,
+					);
+					battleManager.removeBattle(battleId);
+					removeBattleFromCache(battleId);
+
+					await updateBattleInDB(battleId, {
+						status: "finished",
+						winner: battleRoom.started ? "p2" : null,
+					});
+				} else if (!battleRoom.p1 && !battleRoom.p2) {
 					console.log(
 						`[Battle ${battleId}] Both players disconnected/left. Removing battle.`,
 					);
@@ -602,6 +1452,7 @@ export function setupSocketHandlers(io: Server): void {
 					// Mark as finished in database if not already
 					await updateBattleInDB(battleId, { status: "finished" });
 				}
+				void broadcastLobby(io);
 			}
 		});
 
@@ -611,7 +1462,6 @@ export function setupSocketHandlers(io: Server): void {
 			async (data: {
 				battleId: string;
 				decision: PlayerDecision;
-				forceSwitch?: boolean;
 			}) => {
 				const clientInfo = getClientInfo(socket.id);
 				const battleRoom = await getBattleRoom(data.battleId);
@@ -648,14 +1498,58 @@ export function setupSocketHandlers(io: Server): void {
 					data.decision,
 				);
 
+				// Cancelling goes through client:cancel_decision, so a decision has to be sent
+				if (!data.decision) {
+					socket.emit("server:decision_rejected", {
+						battleId: data.battleId,
+						message: "No choice was sent.",
+					});
+					return;
+				}
+
+				// Make sure the decision answers the request the player is looking at, and is legal
+				const battleEngine = battleManager.getBattle(data.battleId);
+				const request =
+					(playerRole === "p1"
+						? battleEngine?.getP1Request()
+						: battleEngine?.getP2Request()) ?? null;
+				let check = checkDecisionRqid(
+					battleRoom,
+					playerRole,
+					data.decision,
+					request,
+				);
+				if (check.status === "accept" && request) {
+					check = checkDecisionLegality(data.decision, request);
+				}
+				if (check.status === "retry") {
+					console.log(
+						`[Battle ${data.battleId}] Ignoring repeated decision from ${playerRole} for request ${data.decision.rqid}.`,
+					);
+					return;
+				}
+				if (check.status === "reject") {
+					console.warn(
+						`[Battle ${data.battleId}] Rejected decision from ${playerRole} for request ${data.decision.rqid}: ${check.message}`,
+					);
+					socket.emit("server:decision_rejected", {
+						battleId: data.battleId,
+						rqid: data.decision.rqid,
+						message: check.message,
+					});
+					return;
+				}
+
 				try {
 					await handlePlayerDecision(
 						data.battleId,
 						playerRole,
 						data.decision,
 						battleRoom,
-						data.forceSwitch,
+						// Switches after a faint go to the battle at once; the opponent has nothing to wait for
+						Boolean(request?.forceSwitch),
 					);
+					emitTimerUpdate(io, data.battleId, battleRoom);
 				} catch (error) {
 					console.error(
 						`[Battle ${data.battleId}] Error processing decision for ${playerRole}:`,
@@ -668,6 +1562,49 @@ export function setupSocketHandlers(io: Server): void {
 			},
 		);
 
+		// --- Cancel Decision ---
+		socket.on("client:cancel_decision", async (data: { battleId: string }) => {
+			const clientInfo = getClientInfo(socket.id);
+			const battleRoom = await getBattleRoom(data.battleId);
+			const playerRole = clientInfo?.playerRole;
+
+			if (
+				!clientInfo ||
+				!battleRoom ||
+				!playerRole ||
+				clientInfo.currentBattleId !== data.battleId ||
+				!battleRoom.started
+			) {
+				console.warn(
+					`[Socket ${socket.id}] Invalid cancel request (not playing in this battle).`,
+				);
+				socket.emit("server:cancel_rejected", {
+					battleId: data.battleId,
+					message: "You have no choice to cancel in this battle.",
+				});
+				return;
+			}
+
+			if (!cancelPlayerDecision(battleRoom, playerRole)) {
+				socket.emit("server:cancel_rejected", {
+					battleId: data.battleId,
+					message:
+						"There is no choice to cancel: either none was made, or the turn is already being played.",
+				});
+				return;
+			}
+
+			console.log(
+				`[Battle ${data.battleId}] ${playerRole} cancelled their decision.`,
+			);
+			// The player's time picks up where it stopped
+			resumeTurnTimer(battleRoom, playerRole, (outOfTime) => {
+				void handleTurnTimeout(io, data.battleId, playerRole, outOfTime);
+			});
+			socket.emit("server:decision_cancelled", { battleId: data.battleId });
+			emitTimerUpdate(io, data.battleId, battleRoom);
+		});
+
 		// --- Disconnection ---
 		socket.on("disconnect", async (reason: string) => {
 			const clientInfo = getClientInfo(socket.id);
@@ -684,6 +1621,15 @@ export function setupSocketHandlers(io: Server): void {
 				`[Socket ${socket.id}] Client disconnected (User: ${userId}). Reason: ${reason}`,
 			);
 
+			leaveQueue(socket.id);
+
+			if (clientInfo.spectatingBattleId) {
+				const spectatedRoom = await getBattleRoom(
+					clientInfo.spectatingBattleId,
+				);
+				if (spectatedRoom) removeSpectator(spectatedRoom, socket.id);
+			}
+
 			if (battleId) {
 				const battleRoom = await getBattleRoom(battleId);
 				if (battleRoom) {
@@ -722,12 +1668,14 @@ export function setupSocketHandlers(io: Server): void {
 									status: "finished",
 									winner: "p2",
 								});
+								void broadcastLobby(io);
+								await rateBattle(io, battleData, "p2");
 
 								// Notify opponent if still connected
 								if (opponentSocketId) {
 									io.to(opponentSocketId).emit("server:opponent_disconnected", {
 										battleId: battleId,
-										message: `Your opponent (${userId}) did not reconnect within the time limit.`,
+										message: `Your opponent (${clientInfo.displayName}) did not reconnect within the time limit.`,
 										winner: "p2",
 										temporary: false, // No longer a temporary disconnect
 									});
@@ -768,6 +1716,8 @@ export function setupSocketHandlers(io: Server): void {
 										status: "finished",
 										winner: "p1",
 									});
+									void broadcastLobby(io);
+									await rateBattle(io, battleData, "p1");
 
 									// Notify opponent if still connected
 									if (opponentSocketId) {
@@ -775,7 +1725,7 @@ export function setupSocketHandlers(io: Server): void {
 											"server:opponent_disconnected",
 											{
 												battleId: battleId,
-												message: `Your opponent (${userId}) did not reconnect within the time limit.`,
+												message: `Your opponent (${clientInfo.displayName}) did not reconnect within the time limit.`,
 												winner: "p1",
 												temporary: false, // No longer a temporary disconnect
 											},
@@ -790,7 +1740,7 @@ export function setupSocketHandlers(io: Server): void {
 					if (opponentSocketId) {
 						io.to(opponentSocketId).emit("server:opponent_disconnected", {
 							battleId: battleId,
-							message: `Your opponent (${userId}) disconnected. Waiting for them to reconnect...`,
+							message: `Your opponent (${clientInfo.displayName}) disconnected. Waiting for them to reconnect...`,
 							temporary: true, // Mark disconnect as temporary, expecting reconnect
 						});
 					}
@@ -821,6 +1771,9 @@ export function setupSocketHandlers(io: Server): void {
 			}
 
 			removeClient(socket.id);
+
+			// The player's open battle, if they had one, can no longer be joined
+			if (battleId) void broadcastLobby(io);
 		});
 
 		// --- Error Handling ---
@@ -3,8 +3,12 @@ import type { PlayerId, PlayerDecision, PlayerRequest } from "../../services/bat
 // --- Client and Battle Types ---
 export interface ClientInfo {
 	userId: string;
+	// Name shown to other players: the account's username, or the user ID for guests
+	displayName: string;
 	currentBattleId?: string;
 	playerRole?: PlayerId;
+	// Battle being watched without a player role
+	spectatingBattleId?: string;
 }
 
 export interface SocketInfo {
@@ -21,9 +25,52 @@ export interface BattleRoom {
 	started: boolean;
 	p1Decision: PlayerDecision | null;
 	p2Decision: PlayerDecision | null;
+	// Whether p2 is the built-in AI rather than a human
+	vsAI?: boolean;
+	// Packed teams submitted by each player, held until the battle starts
+	p1Team?: string;
+	p2Team?: string;
 	// Disconnect timers
 	p1DisconnectTimer?: NodeJS.Timeout;
 	p2DisconnectTimer?: NodeJS.Timeout;
+	// Last decision accepted from each player, to tell retries from new decisions
+	acceptedDecisions?: Partial<Record<PlayerId, PlayerDecision>>;
+	// Players whose decision the battle refused after their opponent's was already sent to it
+	awaitingResubmit?: Partial<Record<PlayerId, boolean>>;
+	// Each player's battle timer, set up when their first request is timed
+	turnTimers?: Partial<Record<PlayerId, TurnTimer>>;
+}
+
+// A player's battle timer: a bank for the whole battle, spent one decision at a time
+export interface TurnTimer {
+	// Time left in the bank, in milliseconds
+	bankMs: number;
+	// When the current decision started being timed, or null while the timer is paused
+	startedAt: number | null;
+	// Most time the current decision can take
+	limitMs: number;
+	// What the last paused decision had left of its turn and earned back, so cancelling it picks the turn up again
+	lastPause?: { turnLeftMs: number; creditedMs: number };
+	timeout?: NodeJS.Timeout;
+}
+
+// A player's timer as sent to clients
+export interface TurnTimerView {
+	// Time left for the current decision while running, otherwise the time left in the bank
+	remainingMs: number;
+	running: boolean;
+}
+
+// A player waiting in the matchmaking queue
+export interface QueueEntry {
+	socketId: string;
+	userId: string;
+	displayName: string;
+	format: string;
+	// Packed team, validated when the player joined the queue
+	team?: string;
+	rating: number;
+	joinedAt: number;
 }
 
 // Database types
@@ -43,7 +90,74 @@ export interface BattleRecord {
 	p1_last_request: PlayerRequest | null;
 	p2_last_request: PlayerRequest | null;
 	initial_protocol_lines: string[];
+	seed: string | null;
+	input_log: string[] | null;
+	// Packed teams submitted by each player, kept so a waiting battle can still start after a restart
+	p1_team: string | null;
+	p2_team: string | null;
+}
+
+// Fields of a battle record that can change after it is created
+export type BattleRecordUpdate = Partial<
+	Omit<BattleRecord, "id" | "format" | "created_at" | "seed">
+>;
+
+// A finished battle's log, as served for replays
+export interface BattleReplay {
+	id: string;
+	format: string;
+	formatName: string;
+	p1Name: string;
+	p2Name: string;
+	winner: string | null;
+	createdAt: string;
+	log: string[];
 }
 
 // Re-export battle types for convenience
-export type { PlayerId, PlayerDecision, PlayerRequest }; 
\ No newline at end of file
+export type { PlayerId, PlayerDecision, PlayerRequest }; 
+// A battle listed in the lobby
+export interface LobbyBattle {
+	id: string;
+	format: string;
+	formatName: string;
+	p1Name: string;
+	p2Name: string | null;
+	createdAt: string;
+}
+
+// Battles players can join or watch
+export interface Lobby {
+	// Battles whose creator is still waiting for an opponent
+	waiting: LobbyBattle[];
+	// Battles in progress, which can be spectated
+	active: LobbyBattle[];
+}
+
+// A user's Glicko-2 rating in one format
+export interface RatingRecord {
+	user_id: string;
+	format: string;
+	rating: number;
+	deviation: number;
+	volatility: number;
+	wins: number;
+	losses: number;
+	updated_at: string;
+}
+
+// A registered account; its ID is the username in lowercase letters and digits only
+export interface UserRecord {
+	id: string;
+	username: string;
+	password_hash: string;
+	created_at: string;
+}
+
+// The resume token a guest user ID was last issued; the ID's older tokens are revoked
+export interface GuestClaimRecord {
+	user_id: string;
+	// The token's ID, from its jti field
+	token_id: string;
+	updated_at: string;
+}
@@ -0,0 +1,33 @@
+-- Columns and tables the battle store uses beyond the original battles table
+
+alter table battles add column if not exists seed text;
+alter table battles add column if not exists input_log jsonb;
+
+create index if not exists battles_created_at on battles (created_at);
+
+-- Each player's Glicko-2 rating in a format
+create table if not exists ratings (
+	user_id text not null,
+	format text not null,
+	rating double precision not null,
+	deviation double precision not null,
+	volatility double precision not null,
+	wins integer not null,
+	losses integer not null,
+	updated_at timestamptz not null,
+	primary key (user_id, format)
+);
+
+create index if not exists ratings_format_rating on ratings (format, rating);
+
+-- Registered accounts; the ID is the username in lowercase letters and digits only
+create table if not exists users (
+	id text primary key,
+	username text not null,
+	password_hash text not null,
+	created_at timestamptz not null
+);
+
+-- Only the server reaches these tables, with the service key
+alter table ratings enable row level security;
+alter table users enable row level security;
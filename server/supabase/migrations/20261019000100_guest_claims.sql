@@ -0,0 +1,8 @@
+-- The resume token each guest user ID was last issued; older tokens for the ID are revoked
+create table if not exists guest_claims (
+	user_id text primary key,
+	token_id text not null,
+	updated_at timestamptz not null
+);
+
+alter table guest_claims enable row level security;
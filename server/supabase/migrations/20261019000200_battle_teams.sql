@@ -0,0 +1,3 @@
+-- Packed teams submitted by each player, kept so a waiting battle can still start after a restart
+alter table battles add column if not exists p1_team text;
+alter table battles add column if not exists p2_team text;
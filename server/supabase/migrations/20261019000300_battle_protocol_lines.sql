@@ -0,0 +1,9 @@
+-- Each battle's full protocol log with |split| markers, one row per line, kept for replays
+create table if not exists battle_protocol_lines (
+	battle_id text not null,
+	line_index integer not null,
+	line text not null,
+	primary key (battle_id, line_index)
+);
+
+alter table battle_protocol_lines enable row level security;